@@ -22,22 +22,61 @@ import { ExtraModeControls } from "./ExtraModeControls.js";
 import { useAtom } from "jotai";
 import {
   BumpSessionAtom,
+  CompareModeAtom,
+  ClearHistoryAtom,
+  DetectTypeAtom,
   ImageSrcAtom,
   InitFinishedAtom,
   IsUploadedImageAtom,
+  ShareStream,
+  ShowBatchAtom,
+  ShowChatAtom,
+  ShowHistoryAtom,
+  ShowSceneGraphAtom,
+  ShowSceneViewAtom,
 } from "./atoms.js";
-import { useResetState } from "./hooks.js";
+import {
+  useBatchRunner,
+  useHistoryShortcuts,
+  useReleasedImageUrl,
+  useResetState,
+} from "./hooks.js";
 import { DetectTypeSelector } from "./DetectTypeSelector.js";
+import { GroundTruthPanel } from "./GroundTruthPanel.js";
+import { HistorySidebar } from "./HistorySidebar.js";
+import { BatchPanel } from "./BatchPanel.js";
+import { CompareView } from "./CompareView.js";
+import { SceneView } from "./SceneView.js";
+import { SceneGraphPanel } from "./SceneGraphPanel.js";
+import { ChatPanel } from "./ChatPanel.js";
 import { safetySettings } from "./consts.js";
 
 export default function App() {
-  const [, setImageSrc] = useAtom(ImageSrcAtom);
+  const [imageSrc, setImageSrc] = useAtom(ImageSrcAtom);
+  const [stream] = useAtom(ShareStream);
+  const [showHistory] = useAtom(ShowHistoryAtom);
+  const [showBatch] = useAtom(ShowBatchAtom);
+  const [compareMode] = useAtom(CompareModeAtom);
+  const [showSceneView] = useAtom(ShowSceneViewAtom);
+  const [showSceneGraph] = useAtom(ShowSceneGraphAtom);
+  const [showChat] = useAtom(ShowChatAtom);
+  const [detectType] = useAtom(DetectTypeAtom);
+  const [, clearHistory] = useAtom(ClearHistoryAtom);
   const resetState = useResetState();
   const [initFinished, setInitFinished] = useAtom(InitFinishedAtom);
   const [, setBumpSession] = useAtom(BumpSessionAtom);
   const [, setIsUploadedImage] = useAtom(IsUploadedImageAtom);
   const [sceneContext, setSceneContext] = useState<{ scene: string; task: string; } | null>(null);
 
+  useHistoryShortcuts();
+  useBatchRunner();
+  useReleasedImageUrl();
+
+  // Undo history belongs to the image it was recorded on.
+  useEffect(() => {
+    clearHistory();
+  }, [imageSrc, stream, clearHistory]);
+
   useEffect(() => {
     if (!window.matchMedia("(prefers-color-scheme: dark)").matches) {
       document.documentElement.classList.remove("dark");
@@ -48,13 +87,29 @@ export default function App() {
     <div className="flex flex-col h-[100dvh]">
       <div className="flex grow flex-col border-b overflow-hidden">
         <TopBar />
-        {initFinished ? <Content sceneContext={sceneContext} /> : null}
+        <div className="flex grow min-h-0">
+          {compareMode ? (
+            <CompareView />
+          ) : initFinished ? (
+            <Content />
+          ) : null}
+          {showHistory ? <HistorySidebar /> : null}
+          {showBatch ? <BatchPanel /> : null}
+          {showSceneView && detectType === "3D bounding boxes" ? (
+            <SceneView />
+          ) : null}
+          {showSceneGraph ? (
+            <SceneGraphPanel sceneContext={sceneContext} />
+          ) : null}
+          {showChat ? <ChatPanel sceneContext={sceneContext} /> : null}
+        </div>
         <ExtraModeControls />
       </div>
       <div className="flex shrink-0 w-full overflow-auto py-6 px-5 gap-6 lg:items-start">
         <div className="flex flex-col lg:flex-col gap-6 items-center border-r pr-5">
           <ExampleImages />
           <SideControls />
+          <GroundTruthPanel />
         </div>
         <div className="flex flex-row gap-6 grow">
           <DetectTypeSelector />
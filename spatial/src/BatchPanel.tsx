@@ -0,0 +1,299 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useState } from "react";
+import {
+  BackendAtom,
+  BatchConcurrencyAtom,
+  BatchConfigAtom,
+  BatchItemsAtom,
+  BatchRunningAtom,
+  CaptureSettingsAtom,
+  DetectTypeAtom,
+  ImageSrcAtom,
+  ItemLimitsAtom,
+  LabelPromptAtom,
+  ModelSelectedAtom,
+  PromptsAtom,
+  ReleasedImageUrlAtom,
+  ShowBatchAtom,
+  TargetPromptAtom,
+  TemperatureAtom,
+} from "./atoms";
+import { BatchItem, createBatchItems, toExportImage } from "./batch";
+import { countResults, getDetectionPrompt } from "./detection";
+import { exportImages } from "./exporters";
+import { useShowResults } from "./hooks";
+import { downloadFile } from "./utils";
+
+const statusColors: Record<BatchItem["status"], string> = {
+  queued: "#888D8F",
+  running: "#3B68FF",
+  done: "#22c55e",
+  failed: "#e11d48",
+};
+
+export function BatchPanel() {
+  const [items, setItems] = useAtom(BatchItemsAtom);
+  const [config, setConfig] = useAtom(BatchConfigAtom);
+  const [running, setRunning] = useAtom(BatchRunningAtom);
+  const [concurrency, setConcurrency] = useAtom(BatchConcurrencyAtom);
+  const [, setShowBatch] = useAtom(ShowBatchAtom);
+  const [detectType] = useAtom(DetectTypeAtom);
+  const [prompts] = useAtom(PromptsAtom);
+  const [targetPrompt] = useAtom(TargetPromptAtom);
+  const [labelPrompt] = useAtom(LabelPromptAtom);
+  const [itemLimits] = useAtom(ItemLimitsAtom);
+  const [modelSelected] = useAtom(ModelSelectedAtom);
+  const [temperature] = useAtom(TemperatureAtom);
+  const [backendName] = useAtom(BackendAtom);
+  const [captureSettings] = useAtom(CaptureSettingsAtom);
+  const [imageSrc] = useAtom(ImageSrcAtom);
+  const [, setReleasedImageUrl] = useAtom(ReleasedImageUrlAtom);
+  const [openItem, setOpenItem] = useState<string | null>(null);
+  // What is typed in the concurrency field, clamped only once it is committed.
+  const [concurrencyDraft, setConcurrencyDraft] = useState<string | null>(null);
+  const showResults = useShowResults();
+
+  const finished = items.filter(
+    ({ status }) => status === "done" || status === "failed",
+  ).length;
+  const done = items.filter(({ status }) => status === "done");
+  const failed = items.filter(({ status }) => status === "failed").length;
+  // The config is kept from Start until the batch runs out of work.
+  const paused = !running && config !== null;
+  const hasQueued = items.some(({ status }) => status === "queued");
+
+  function addFiles(files: FileList | null) {
+    const added = createBatchItems(Array.from(files ?? []));
+    setItems((prev) => [...prev, ...added]);
+  }
+
+  function start() {
+    setConfig({
+      backend: backendName,
+      capture: captureSettings,
+      model: modelSelected,
+      detectType,
+      temperature,
+      prompt: getDetectionPrompt(
+        detectType,
+        detectType === "2D bounding boxes"
+          ? [targetPrompt, labelPrompt]
+          : prompts[detectType],
+        itemLimits[detectType],
+      ),
+    });
+    setRunning(true);
+  }
+
+  function clear() {
+    setRunning(false);
+    // The image open in the main view stays loadable until it is replaced.
+    items.forEach(({ src }) =>
+      src === imageSrc ? setReleasedImageUrl(src) : URL.revokeObjectURL(src),
+    );
+    setItems([]);
+    setConfig(null);
+  }
+
+  function exportBatch(format: "coco" | "csv") {
+    for (const file of exportImages(format, done.map(toExportImage))) {
+      downloadFile(file.name, file.content, file.type);
+    }
+  }
+
+  return (
+    <div className="flex flex-col shrink-0 w-[320px] border-l text-sm overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <div className="font-medium">Batch ({items.length})</div>
+        <button
+          className="p-0 border-none bg-transparent"
+          style={{ minHeight: 0 }}
+          title="Close"
+          onClick={() => setShowBatch(false)}
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex flex-col gap-2 px-3 py-2 border-b">
+        <div className="flex gap-2">
+          <label className="button grow flex justify-center items-center">
+            <input
+              className="hidden"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            Add images
+          </label>
+          <label className="button grow flex justify-center items-center">
+            <input
+              className="hidden"
+              type="file"
+              // Not in React's input typings, but supported by all major browsers.
+              {...{ webkitdirectory: "" }}
+              onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            Add folder
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="whitespace-nowrap">Concurrency:</label>
+          <input
+            type="number"
+            min="1"
+            max="8"
+            value={concurrencyDraft ?? concurrency}
+            onChange={(e) => setConcurrencyDraft(e.target.value)}
+            onBlur={() => {
+              if (concurrencyDraft === null) return;
+              setConcurrency(
+                Math.min(8, Math.max(1, Math.round(Number(concurrencyDraft)) || 1)),
+              );
+              setConcurrencyDraft(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            className="w-12 px-2 py-1 bg-[var(--input-color)] rounded"
+          />
+          <div className="grow" />
+          {running ? (
+            <button className="secondary" onClick={() => setRunning(false)}>
+              Pause
+            </button>
+          ) : (
+            <button
+              className="bg-[#3B68FF] !text-white !border-none disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!hasQueued}
+              onClick={() => (paused ? setRunning(true) : start())}
+            >
+              {paused ? "Resume" : "Start"}
+            </button>
+          )}
+        </div>
+        {config && (
+          <div
+            className="truncate text-xs text-[var(--text-color-secondary)]"
+            title={config.prompt}
+          >
+            {config.detectType} · {config.model.replace("models/", "")}
+          </div>
+        )}
+        {items.length > 0 && (
+          <>
+            <div className="h-1.5 w-full bg-[var(--border-color)] rounded">
+              <div
+                className="h-full bg-[#3B68FF] rounded"
+                style={{ width: `${(finished / items.length) * 100}%` }}
+              />
+            </div>
+            <div className="flex justify-between items-center">
+              <div>
+                {finished}/{items.length} done
+                {failed ? ` · ${failed} failed` : ""}
+              </div>
+              <div className="flex gap-3">
+                {failed > 0 && !running && (
+                  <button
+                    className="p-0 border-none underline bg-transparent"
+                    style={{ minHeight: 0 }}
+                    onClick={() =>
+                      setItems((prev) =>
+                        prev.map((item) =>
+                          item.status === "failed"
+                            ? { ...item, status: "queued" }
+                            : item,
+                        ),
+                      )
+                    }
+                  >
+                    retry failed
+                  </button>
+                )}
+                <button
+                  className="p-0 border-none underline bg-transparent"
+                  style={{ minHeight: 0 }}
+                  onClick={clear}
+                >
+                  clear
+                </button>
+              </div>
+            </div>
+            {done.length > 0 && (
+              <div className="flex gap-2">
+                <button className="secondary grow" onClick={() => exportBatch("coco")}>
+                  Export COCO
+                </button>
+                <button className="secondary grow" onClick={() => exportBatch("csv")}>
+                  Export CSV
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-2 p-3 overflow-y-auto">
+        {items.map((item) => (
+          <button
+            key={item.id}
+            className={`relative p-0 aspect-square overflow-hidden disabled:cursor-default ${
+              item.id === openItem ? "ring-2 ring-[#3B68FF]" : ""
+            }`}
+            title={item.error ? `${item.name}: ${item.error}` : item.name}
+            disabled={item.status !== "done"}
+            onClick={() => {
+              setOpenItem(item.id);
+              showResults({
+                image: item.src,
+                imageName: item.name,
+                lines: [],
+                detectType: item.detectType!,
+                results: item.output!.results,
+                rawText: item.output!.rawText,
+              });
+            }}
+          >
+            <img
+              src={item.src}
+              alt={item.name}
+              className="absolute left-0 top-0 w-full h-full object-cover"
+            />
+            <div
+              className="absolute right-1 top-1 px-1 rounded-sm text-white text-xs"
+              style={{ backgroundColor: statusColors[item.status] }}
+            >
+              {item.status === "done"
+                ? countResults(item.output!.results)
+                : item.status === "running"
+                  ? "…"
+                  : item.status === "failed"
+                    ? "!"
+                    : ""}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useMemo } from "react";
+import {
+  BoundingBoxes3DAtom,
+  CameraAtom,
+  HoveredBoxAtom,
+  MediaDimensionsAtom,
+  SelectedInstanceAtom,
+} from "./atoms";
+import {
+  Vec3,
+  boxCorners,
+  boxEdges,
+  boxFaces,
+  clipPolygon,
+  clipSegment,
+  edgeFaces,
+  facesCamera,
+  projectToImage,
+  toCameraFrame,
+} from "./camera";
+import { boxColors } from "./consts";
+
+// Camera frame depth in front of which geometry is drawn.
+const near = 0.01;
+
+type Point = [number, number];
+
+type RenderedBox = {
+  id: string;
+  label: string;
+  color: string;
+  faces: Point[][];
+  edges: { start: Point; end: Point; hidden: boolean }[];
+  labelPosition: Point | null;
+};
+
+// Draws the 3D boxes over an image of the given size in CSS pixels. Edges are
+// cut at the near plane, edges between two faces turned away from the camera
+// are dashed, and faces turned towards it are lightly filled. The selected or
+// hovered box is drawn heavier.
+export function Boxes3DOverlay({ width, height }: { width: number; height: number }) {
+  const [boxes] = useAtom(BoundingBoxes3DAtom);
+  const [{ intrinsics, extrinsics }] = useAtom(CameraAtom);
+  const [media] = useAtom(MediaDimensionsAtom);
+  const [selected] = useAtom(SelectedInstanceAtom);
+  const [hovered] = useAtom(HoveredBoxAtom);
+
+  const rendered = useMemo(() => {
+    // Intrinsics are in source pixels; the overlay is in CSS pixels.
+    const scaleX = width / media.width;
+    const scaleY = height / media.height;
+    const project = (point: Vec3): Point => {
+      const [u, v] = projectToImage(intrinsics, point);
+      return [u * scaleX, v * scaleY];
+    };
+    const onScreen = ([x, y]: Point) => x >= 0 && x <= width && y >= 0 && y <= height;
+
+    return boxes.map((box, i): RenderedBox => {
+      const corners = boxCorners(box).map((corner) => toCameraFrame(extrinsics, corner));
+      const center = toCameraFrame(extrinsics, box.center);
+      const frontFaces = boxFaces.map((face) =>
+        facesCamera(face.map((j) => corners[j]), center),
+      );
+
+      const faces = boxFaces
+        .filter((_, j) => frontFaces[j])
+        .map((face) => clipPolygon(face.map((j) => corners[j]), near).map(project))
+        .filter((face) => face.length >= 3);
+
+      const edges = boxEdges.flatMap(([a, b], j) => {
+        const clipped = clipSegment(corners[a], corners[b], near);
+        if (!clipped) return [];
+        return [
+          {
+            start: project(clipped[0]),
+            end: project(clipped[1]),
+            hidden: !edgeFaces[j].some((face) => frontFaces[face]),
+          },
+        ];
+      });
+
+      // Prefer the top of the box; otherwise stick to the highest visible
+      // point, kept inside the image.
+      const top = [0, 1, 2].map(
+        (axis) => corners.slice(0, 4).reduce((sum, corner) => sum + corner[axis], 0) / 4,
+      ) as Vec3;
+      let labelPosition: Point | null = top[2] >= near ? project(top) : null;
+      if (!labelPosition || !onScreen(labelPosition)) {
+        const points = edges.flatMap(({ start, end }) => [start, end]);
+        const visible = points.filter(onScreen);
+        const highest = (visible.length ? visible : points).reduce<Point | null>(
+          (best, point) => (!best || point[1] < best[1] ? point : best),
+          null,
+        );
+        labelPosition =
+          highest && (visible.length || crossesScreen(points, width, height))
+            ? [
+                Math.min(width, Math.max(0, highest[0])),
+                Math.min(height, Math.max(0, highest[1])),
+              ]
+            : null;
+      }
+
+      return {
+        id: box.id,
+        label: box.label,
+        color: boxColors[i % boxColors.length],
+        faces,
+        edges,
+        labelPosition,
+      };
+    });
+  }, [boxes, intrinsics, extrinsics, media, width, height]);
+
+  return (
+    <>
+      <svg
+        className="absolute left-0 top-0 pointer-events-none"
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+      >
+        {rendered.map(({ id, color, faces, edges }) => {
+          const emphasized = id === selected || id === hovered;
+          return (
+            <g key={id}>
+              {faces.map((face, j) => (
+                <polygon
+                  key={j}
+                  points={face.map((point) => point.join(",")).join(" ")}
+                  fill={color}
+                  fillOpacity={emphasized ? 0.3 : 0.12}
+                />
+              ))}
+              {edges.map(({ start, end, hidden }, j) => (
+                <line
+                  key={j}
+                  x1={start[0]}
+                  y1={start[1]}
+                  x2={end[0]}
+                  y2={end[1]}
+                  stroke={color}
+                  strokeWidth={(hidden ? 1 : 2) + (emphasized ? 1 : 0)}
+                  strokeDasharray={hidden ? "4 3" : undefined}
+                  strokeOpacity={hidden ? 0.6 : 1}
+                />
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      {rendered.map(({ id, label, color, labelPosition }) =>
+        labelPosition ? (
+          <div
+            key={id}
+            className="absolute text-white text-xs px-1 whitespace-nowrap pointer-events-none"
+            style={{
+              backgroundColor: color,
+              left: `${labelPosition[0]}px`,
+              top: `${labelPosition[1]}px`,
+              transform: "translate(-50%, -100%)",
+            }}
+          >
+            {label}
+          </div>
+        ) : null,
+      )}
+    </>
+  );
+}
+
+// Whether the bounding rectangle of the points overlaps the image, for edges
+// that pass through it with both ends outside.
+function crossesScreen(points: Point[], width: number, height: number) {
+  if (!points.length) return false;
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  return (
+    Math.max(...xs) >= 0 &&
+    Math.min(...xs) <= width &&
+    Math.max(...ys) >= 0 &&
+    Math.min(...ys) <= height
+  );
+}
@@ -0,0 +1,162 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import {
+  CameraAtom,
+  CameraExtrinsicsAtom,
+  CameraIntrinsicsAtom,
+  FOVAtom,
+  ShowSceneViewAtom,
+} from "./atoms";
+import { CameraExtrinsics, CameraIntrinsics, defaultExtrinsics } from "./camera";
+
+function NumberField({
+  label,
+  title,
+  value,
+  step,
+  onChange,
+}: {
+  label: string;
+  title: string;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1 whitespace-nowrap" title={title}>
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={Math.round(value * 100) / 100}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          if (Number.isFinite(value)) onChange(value);
+        }}
+        className="w-16 px-2 py-1 bg-[var(--input-color)] rounded"
+      />
+    </label>
+  );
+}
+
+export function CameraControls() {
+  const [fov, setFoV] = useAtom(FOVAtom);
+  const [camera] = useAtom(CameraAtom);
+  const [explicitIntrinsics, setIntrinsics] = useAtom(CameraIntrinsicsAtom);
+  const [, setExtrinsics] = useAtom(CameraExtrinsicsAtom);
+  const [showSceneView, setShowSceneView] = useAtom(ShowSceneViewAtom);
+  const { intrinsics, extrinsics } = camera;
+
+  // Editing one intrinsic pins the others at their current values.
+  const updateIntrinsics = (update: Partial<CameraIntrinsics>) =>
+    setIntrinsics({ ...intrinsics, ...update });
+  const updateExtrinsics = (update: Partial<CameraExtrinsics>) =>
+    setExtrinsics((prev) => ({ ...prev, ...update }));
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2 items-center justify-center text-sm">
+      <label className="flex items-center gap-2">
+        FOV
+        <input
+          type="range"
+          min="30"
+          max="120"
+          value={fov}
+          onChange={(e) => {
+            setFoV(+e.target.value);
+            setIntrinsics(null);
+          }}
+        />
+        <div className="w-6">{explicitIntrinsics ? "–" : fov}</div>
+      </label>
+      <div className="flex items-center gap-2">
+        <NumberField
+          label="fx"
+          title="Focal length along x, in source pixels"
+          value={intrinsics.fx}
+          step={1}
+          onChange={(fx) => updateIntrinsics({ fx })}
+        />
+        <NumberField
+          label="fy"
+          title="Focal length along y, in source pixels"
+          value={intrinsics.fy}
+          step={1}
+          onChange={(fy) => updateIntrinsics({ fy })}
+        />
+        <NumberField
+          label="cx"
+          title="Principal point x, in source pixels"
+          value={intrinsics.cx}
+          step={1}
+          onChange={(cx) => updateIntrinsics({ cx })}
+        />
+        <NumberField
+          label="cy"
+          title="Principal point y, in source pixels"
+          value={intrinsics.cy}
+          step={1}
+          onChange={(cy) => updateIntrinsics({ cy })}
+        />
+        {explicitIntrinsics && (
+          <button
+            className="p-0 border-none underline bg-transparent"
+            style={{ minHeight: 0 }}
+            onClick={() => setIntrinsics(null)}
+          >
+            from FOV
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <NumberField
+          label="tilt"
+          title="Degrees from looking straight down; 90 looks straight ahead"
+          value={extrinsics.tilt}
+          step={1}
+          onChange={(tilt) => updateExtrinsics({ tilt })}
+        />
+        <NumberField
+          label="roll"
+          title="Rotation around the viewing axis in degrees"
+          value={extrinsics.roll}
+          step={1}
+          onChange={(roll) => updateExtrinsics({ roll })}
+        />
+        <NumberField
+          label="height"
+          title="Camera height above the ground"
+          value={extrinsics.height}
+          step={0.1}
+          onChange={(height) => updateExtrinsics({ height })}
+        />
+        <button
+          className="p-0 border-none underline bg-transparent"
+          style={{ minHeight: 0 }}
+          onClick={() => setExtrinsics(defaultExtrinsics)}
+        >
+          reset
+        </button>
+      </div>
+      <button
+        className={showSceneView ? "" : "secondary"}
+        onClick={() => setShowSceneView(!showSceneView)}
+      >
+        3D view
+      </button>
+    </div>
+  );
+}
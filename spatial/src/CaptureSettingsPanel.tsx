@@ -0,0 +1,169 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useEffect, useState } from "react";
+import {
+  CaptureSettingsAtom,
+  ImageSrcAtom,
+  ShareStream,
+  VideoRefAtom,
+} from "./atoms";
+import {
+  CaptureFormat,
+  captureFormats,
+  clampCaptureSize,
+  drawScaled,
+  encodeCanvas,
+  payloadBytes,
+} from "./capture";
+import { getErrorMessage, loadImage } from "./utils";
+
+type Estimate = { width: number; height: number; type: string; bytes: number };
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.round(bytes / 1024)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Max dimension, format and quality of the frames sent to the model, with the
+// size of the current image or video frame encoded that way.
+export function CaptureSettingsPanel() {
+  const [settings, setSettings] = useAtom(CaptureSettingsAtom);
+  const [imageSrc] = useAtom(ImageSrcAtom);
+  const [stream] = useAtom(ShareStream);
+  const [videoRef] = useAtom(VideoRefAtom);
+  const [estimate, setEstimate] = useState<Estimate | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  // What is typed in the size field, clamped only once it is committed.
+  const [sizeDraft, setSizeDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Wait for typing in the size field to settle.
+    const timeout = setTimeout(async () => {
+      try {
+        const video = videoRef.current;
+        let canvas: HTMLCanvasElement;
+        if (stream && video?.videoWidth) {
+          canvas = drawScaled(video, settings.maxSize);
+        } else if (!stream && imageSrc) {
+          canvas = drawScaled(await loadImage(imageSrc), settings.maxSize);
+        } else {
+          if (!cancelled) setEstimate(null);
+          return;
+        }
+        const dataURL = await encodeCanvas(canvas, settings);
+        if (cancelled) return;
+        setEstimate({
+          width: canvas.width,
+          height: canvas.height,
+          type: dataURL.slice(5, dataURL.indexOf(";")),
+          bytes: payloadBytes(dataURL),
+        });
+        setEstimateError(null);
+      } catch (error) {
+        if (!cancelled) setEstimateError(getErrorMessage(error));
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [settings, imageSrc, stream, videoRef]);
+
+  const formatName = (type: string) =>
+    captureFormats.find(({ format }) => format === type)?.name ?? type;
+
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer select-none">
+        Capture: {settings.maxSize}px {formatName(settings.format)}
+        {estimate && ` · ≈${formatBytes(estimate.bytes)} per frame`}
+      </summary>
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        <label className="flex items-center gap-2">
+          Max dimension (px):
+          <input
+            type="number"
+            min="128"
+            max="4096"
+            step="64"
+            value={sizeDraft ?? settings.maxSize}
+            onChange={(e) => setSizeDraft(e.target.value)}
+            onBlur={() => {
+              if (sizeDraft === null) return;
+              setSettings({
+                ...settings,
+                maxSize: clampCaptureSize(Number(sizeDraft)),
+              });
+              setSizeDraft(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            className="w-20 px-2 py-1 bg-[var(--input-color)] rounded"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Format:
+          <select
+            className="border bg-transparent py-1 px-1 rounded-md"
+            value={settings.format}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                format: e.target.value as CaptureFormat,
+              })
+            }
+          >
+            {captureFormats.map(({ format, name }) => (
+              <option key={format} value={format}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label
+          className={`flex items-center gap-2 ${settings.format === "image/png" ? "opacity-50" : ""}`}
+          title={settings.format === "image/png" ? "PNG is lossless" : undefined}
+        >
+          Quality:
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={settings.quality}
+            disabled={settings.format === "image/png"}
+            onChange={(e) =>
+              setSettings({ ...settings, quality: Number(e.target.value) })
+            }
+          />
+          <div className="w-8">{Math.round(settings.quality * 100)}</div>
+        </label>
+      </div>
+      <div className="mt-1 text-[var(--text-color-secondary)]">
+        {estimateError
+          ? `Couldn't estimate the payload: ${estimateError}`
+          : estimate
+            ? `${estimate.width}×${estimate.height} ${formatName(estimate.type)}, ≈${formatBytes(estimate.bytes)} of base64 per frame` +
+              (estimate.type !== settings.format
+                ? `. This browser can't encode ${formatName(settings.format)}.`
+                : "")
+            : "No frame to estimate the payload from yet."}
+      </div>
+    </details>
+  );
+}
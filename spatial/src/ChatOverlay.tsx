@@ -0,0 +1,78 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { ChatMessagesAtom, ChatShownAtom, ShowChatAtom } from "./atoms";
+
+const chatColor = "#a855f7";
+
+// Draws the boxes and points of the hovered chat answer, or of the latest one
+// that has any, dashed so they don't pass for detections.
+export function ChatOverlay() {
+  const [messages] = useAtom(ChatMessagesAtom);
+  const [shown] = useAtom(ChatShownAtom);
+  const [showChat] = useAtom(ShowChatAtom);
+  if (!showChat) return null;
+
+  const message =
+    shown !== null
+      ? messages[shown]
+      : [...messages]
+          .reverse()
+          .find(({ boxes, points }) => boxes.length + points.length > 0);
+  if (!message) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 20 }}>
+      {message.boxes.map((box) => (
+        <div
+          key={box.id}
+          className="absolute border-2 border-dashed"
+          style={{
+            borderColor: chatColor,
+            top: box.y * 100 + "%",
+            left: box.x * 100 + "%",
+            width: box.width * 100 + "%",
+            height: box.height * 100 + "%",
+          }}
+        >
+          <div
+            className="absolute left-0 top-0 -translate-y-full text-white text-xs px-1 whitespace-nowrap"
+            style={{ backgroundColor: chatColor }}
+          >
+            {box.label}
+          </div>
+        </div>
+      ))}
+      {message.points.map(({ id, point, label }) => (
+        <div
+          key={id}
+          className="absolute"
+          style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+        >
+          <div
+            className="absolute text-center text-white text-xs px-1 bottom-4 rounded-sm -translate-x-1/2 left-1/2 whitespace-nowrap"
+            style={{ backgroundColor: chatColor }}
+          >
+            {label}
+          </div>
+          <div
+            className="absolute w-4 h-4 rounded-full border-white border-[2px] -translate-x-1/2 -translate-y-1/2"
+            style={{ backgroundColor: chatColor }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  BoundingBoxes2DAtom,
+  BoundingBoxes3DAtom,
+  BumpSessionAtom,
+  CaptureSettingsAtom,
+  ChatMessagesAtom,
+  ChatRequestAtom,
+  ChatShownAtom,
+  DetectTypeAtom,
+  HoveredBoxAtom,
+  ImageSrcAtom,
+  ModelSelectedAtom,
+  PointsAtom,
+  SegmentationMasksAtom,
+  SelectedInstanceAtom,
+  ShareStream,
+  ShowChatAtom,
+  VideoRefAtom,
+} from "./atoms";
+import { drawScaled, encodeCanvas } from "./capture";
+import {
+  ChatMessage,
+  chatObjects,
+  getChatSystemPrompt,
+  parseChatAnswer,
+  userMessage,
+} from "./chat";
+import { useBackend } from "./hooks";
+import { ErrorCard, StatusLine } from "./StatusPanel";
+import { getErrorMessage, isRequestInFlight, loadImage } from "./utils";
+
+// A conversation with the selected model about the image. Every turn sends the
+// image, the scene context and the current detections; answers link back to
+// the detections they mention and can draw boxes and points of their own.
+export function ChatPanel({
+  sceneContext,
+}: {
+  sceneContext: { scene: string; task: string } | null;
+}) {
+  const [messages, setMessages] = useAtom(ChatMessagesAtom);
+  const [request, setRequest] = useAtom(ChatRequestAtom);
+  const [shown, setShown] = useAtom(ChatShownAtom);
+  const [, setShowChat] = useAtom(ShowChatAtom);
+  const [selected, setSelected] = useAtom(SelectedInstanceAtom);
+  const [, setHoveredBox] = useAtom(HoveredBoxAtom);
+  const [detectType] = useAtom(DetectTypeAtom);
+  const [boxes2D] = useAtom(BoundingBoxes2DAtom);
+  const [boxes3D] = useAtom(BoundingBoxes3DAtom);
+  const [points] = useAtom(PointsAtom);
+  const [masks] = useAtom(SegmentationMasksAtom);
+  const [imageSrc] = useAtom(ImageSrcAtom);
+  const [stream] = useAtom(ShareStream);
+  const [videoRef] = useAtom(VideoRefAtom);
+  const [captureSettings] = useAtom(CaptureSettingsAtom);
+  const [modelSelected] = useAtom(ModelSelectedAtom);
+  const [session] = useAtom(BumpSessionAtom);
+  // Read when an answer arrives, to drop answers about a reset conversation.
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const backend = useBackend();
+
+  const objects = useMemo(
+    () => chatObjects(detectType, { boxes2D, boxes3D, points, masks }),
+    [detectType, boxes2D, boxes3D, points, masks],
+  );
+  const busy = isRequestInFlight(request);
+  const canAsk = Boolean(stream || imageSrc) && !busy;
+
+  // Keep the newest message in view.
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages, request.status]);
+
+  // Answers the last user message in the history.
+  async function respond(history: ChatMessage[]) {
+    const startedIn = sessionRef.current;
+    const stale = () => sessionRef.current !== startedIn;
+    let text: string | undefined;
+    try {
+      setRequest({ status: "capturing" });
+      const source = stream ? videoRef.current! : await loadImage(imageSrc!);
+      const image = await encodeCanvas(
+        drawScaled(source, captureSettings.maxSize),
+        captureSettings,
+      );
+      if (stale()) return;
+      setRequest({ status: "waiting" });
+      const answer = await backend.chat({
+        model: modelSelected,
+        system: getChatSystemPrompt(objects, sceneContext),
+        image,
+        turns: history.map(({ role, text }) => ({ role, text })),
+        objects: objects.map(({ label }) => label),
+      });
+      text = answer;
+      if (stale()) return;
+      setRequest({ status: "parsing", rawText: answer });
+      setMessages((prev) => [...prev, parseChatAnswer(answer, objects)]);
+      setShown(null);
+      setRequest({ status: "done", rawText: answer });
+    } catch (error) {
+      if (stale()) return;
+      console.error("Error in chat:", error);
+      setRequest({
+        status: "failed",
+        error: getErrorMessage(error),
+        rawText: text,
+      });
+    }
+  }
+
+  function send() {
+    const text = draft.trim();
+    if (!text || !canAsk) return;
+    const history = [...messages, userMessage(text)];
+    setMessages(history);
+    setDraft("");
+    respond(history);
+  }
+
+  function clear() {
+    setMessages([]);
+    setShown(null);
+    setRequest({ status: "idle" });
+  }
+
+  return (
+    <div className="flex flex-col shrink-0 w-[360px] border-l text-sm overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <div className="font-medium">Chat ({messages.length})</div>
+        <div className="flex gap-3">
+          {messages.length > 0 && (
+            <button
+              className="p-0 border-none underline bg-transparent"
+              style={{ minHeight: 0 }}
+              disabled={busy}
+              onClick={clear}
+            >
+              clear
+            </button>
+          )}
+          <button
+            className="p-0 border-none bg-transparent"
+            style={{ minHeight: 0 }}
+            title="Close"
+            onClick={() => setShowChat(false)}
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+      <div ref={listRef} className="flex flex-col gap-2 grow px-3 py-2 overflow-y-auto">
+        {messages.length === 0 && (
+          <div className="text-[var(--text-color-secondary)]">
+            {objects.length
+              ? `Ask about the image or its ${objects.length} detections.`
+              : "Ask about the image. Detections made first are linked in the answers."}
+          </div>
+        )}
+        {messages.map((message, i) =>
+          message.role === "user" ? (
+            <div
+              key={i}
+              className="self-end max-w-[85%] px-2 py-1 rounded bg-[var(--input-color)] whitespace-pre-wrap"
+            >
+              {message.text}
+            </div>
+          ) : (
+            <div
+              key={i}
+              className="self-start max-w-[95%] whitespace-pre-wrap"
+              onPointerEnter={() => setShown(i)}
+              onPointerLeave={() => setShown(null)}
+            >
+              {message.segments.map(({ text, instanceId }, j) =>
+                instanceId && objects.some(({ id }) => id === instanceId) ? (
+                  <button
+                    key={j}
+                    className={`p-0 border-none underline bg-transparent text-[#3B68FF] ${
+                      instanceId === selected ? "font-medium" : ""
+                    }`}
+                    style={{ minHeight: 0 }}
+                    onPointerEnter={() => setHoveredBox(instanceId)}
+                    onPointerLeave={() => setHoveredBox(null)}
+                    onClick={() =>
+                      setSelected(instanceId === selected ? null : instanceId)
+                    }
+                  >
+                    {text}
+                  </button>
+                ) : (
+                  <span key={j}>{text}</span>
+                ),
+              )}
+              {message.boxes.length + message.points.length > 0 && (
+                <div
+                  className={`text-xs ${
+                    shown === i ? "text-[#a855f7]" : "text-[var(--text-color-secondary)]"
+                  }`}
+                >
+                  Drew {annotationSummary(message)} on the image.
+                </div>
+              )}
+            </div>
+          ),
+        )}
+        {request.status !== "done" && <StatusLine name="Chat" request={request} />}
+        {request.status === "failed" && (
+          <ErrorCard name="Chat" request={request} onRetry={() => respond(messages)} />
+        )}
+      </div>
+      <div className="flex flex-col gap-2 px-3 py-2 border-t">
+        <textarea
+          className="w-full bg-[var(--input-color)] rounded-lg resize-none p-2"
+          rows={2}
+          placeholder={
+            stream || imageSrc
+              ? "Ask a follow-up question…"
+              : "Load an image or start a stream first."
+          }
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+        />
+        <button
+          className="self-end disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!canAsk || !draft.trim()}
+          onClick={send}
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function annotationSummary({ boxes, points }: ChatMessage) {
+  const count = (n: number, one: string, many: string) =>
+    n ? `${n} ${n === 1 ? one : many}` : "";
+  return [count(boxes.length, "box", "boxes"), count(points.length, "point", "points")]
+    .filter(Boolean)
+    .join(" and ");
+}
@@ -0,0 +1,229 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useState } from "react";
+import { CompareViewAtom, ComparisonAtom } from "./atoms";
+import { compareColors } from "./consts";
+import { CompareRun, compareResults } from "./comparison";
+import { countResults } from "./detection";
+import { RunResults } from "./runHistory";
+
+const percent = (value: number | null) =>
+  value === null ? "–" : `${Math.round(value * 100)}%`;
+
+const runName = ({ config }: CompareRun) =>
+  `${config.model.replace("models/", "")} · t=${config.temperature}`;
+
+export function CompareView() {
+  const [comparison] = useAtom(ComparisonAtom);
+  const [view, setView] = useAtom(CompareViewAtom);
+  // Pointer position shared by all panes, normalized to the image.
+  const [pointer, setPointer] = useState<[number, number] | null>(null);
+
+  if (!comparison) {
+    return (
+      <div className="w-full grow flex items-center justify-center text-[var(--text-color-secondary)]">
+        Press Send to run every model in the compare bar on the current image.
+      </div>
+    );
+  }
+
+  const { image, detectType, runs } = comparison;
+  const reference = runs[0].output?.results;
+
+  return (
+    <div className="w-full grow flex flex-col gap-3 p-3 overflow-auto">
+      <div className="flex gap-6 items-start">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-[var(--text-color-secondary)]">
+              <th className="pr-4 font-normal">Model</th>
+              <th className="pr-4 font-normal">Latency</th>
+              <th className="pr-4 font-normal">Items</th>
+              <th className="pr-4 font-normal">Label overlap</th>
+              <th className="pr-4 font-normal">Box agreement</th>
+              <th className="pr-4 font-normal">Mean IoU</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run, i) => {
+              const agreement =
+                i > 0 && reference && run.output
+                  ? compareResults(reference, run.output.results)
+                  : null;
+              return (
+                <tr key={i}>
+                  <td className="pr-4">
+                    <span
+                      className="inline-block w-3 h-3 rounded-sm mr-2 align-middle"
+                      style={{ backgroundColor: compareColors[i % compareColors.length] }}
+                    />
+                    {runName(run)}
+                  </td>
+                  {run.status === "done" ? (
+                    <>
+                      <td className="pr-4">{run.output!.latencyMs} ms</td>
+                      <td className="pr-4">{countResults(run.output!.results)}</td>
+                      <td className="pr-4">
+                        {i === 0 ? "reference" : percent(agreement?.labelOverlap ?? null)}
+                      </td>
+                      <td className="pr-4">{i === 0 ? "" : percent(agreement?.boxAgreement ?? null)}</td>
+                      <td className="pr-4">
+                        {i === 0 || agreement?.meanIoU == null
+                          ? ""
+                          : agreement.meanIoU.toFixed(3)}
+                      </td>
+                    </>
+                  ) : (
+                    <td
+                      colSpan={5}
+                      className={run.status === "failed" ? "text-red-500" : ""}
+                    >
+                      {run.status === "failed" ? run.error : "Waiting…"}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="grow" />
+        <div className="flex gap-2">
+          {(["panes", "overlay"] as const).map((option) => (
+            <button
+              key={option}
+              className={view === option ? "" : "secondary"}
+              onClick={() => setView(option)}
+            >
+              {option === "panes" ? "Side by side" : "Overlay"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {detectType === "3D bounding boxes" && (
+        <div className="text-sm text-[var(--text-color-secondary)]">
+          3D boxes are compared by label only and aren't drawn here.
+        </div>
+      )}
+      <div className="flex gap-3 grow min-h-0">
+        {view === "panes" ? (
+          runs.map((run, i) => (
+            <ComparePane
+              key={i}
+              image={image}
+              title={runName(run)}
+              layers={run.output ? [{ results: run.output.results, index: i }] : []}
+              pointer={pointer}
+              onPointer={setPointer}
+            />
+          ))
+        ) : (
+          <ComparePane
+            image={image}
+            layers={runs.flatMap((run, index) =>
+              run.output ? [{ results: run.output.results, index }] : [],
+            )}
+            pointer={pointer}
+            onPointer={setPointer}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ComparePane({
+  image,
+  title,
+  layers,
+  pointer,
+  onPointer,
+}: {
+  image: string;
+  title?: string;
+  layers: { results: RunResults; index: number }[];
+  pointer: [number, number] | null;
+  onPointer: (pointer: [number, number] | null) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1 min-w-0 grow items-center">
+      {title && <div className="text-sm truncate">{title}</div>}
+      <div
+        className="relative"
+        onPointerMove={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onPointer([
+            (e.clientX - rect.left) / rect.width,
+            (e.clientY - rect.top) / rect.height,
+          ]);
+        }}
+        onPointerLeave={() => onPointer(null)}
+      >
+        <img src={image} className="block max-w-full max-h-[60vh]" alt="" />
+        {layers.map(({ results, index }) => {
+          const color = compareColors[index % compareColors.length];
+          return (
+            <div key={index} className="absolute inset-0 pointer-events-none">
+              {[...results.boxes2D, ...results.masks].map((box, j) => (
+                <div
+                  key={j}
+                  className="absolute border-2"
+                  style={{
+                    borderColor: color,
+                    top: box.y * 100 + "%",
+                    left: box.x * 100 + "%",
+                    width: box.width * 100 + "%",
+                    height: box.height * 100 + "%",
+                  }}
+                >
+                  <div
+                    className="absolute left-0 top-0 -translate-y-full text-white text-[8px] px-1 whitespace-nowrap"
+                    style={{ backgroundColor: color }}
+                  >
+                    {box.label}
+                  </div>
+                </div>
+              ))}
+              {results.points.map((point, j) => (
+                <div
+                  key={j}
+                  className="absolute w-3 h-3 rounded-full border-white border-[2px] -translate-x-1/2 -translate-y-1/2"
+                  style={{
+                    backgroundColor: color,
+                    left: `${point.point.x * 100}%`,
+                    top: `${point.point.y * 100}%`,
+                  }}
+                  title={point.label}
+                />
+              ))}
+            </div>
+          );
+        })}
+        {pointer && (
+          <>
+            <div
+              className="absolute top-0 bottom-0 w-px bg-white/70 pointer-events-none"
+              style={{ left: `${pointer[0] * 100}%` }}
+            />
+            <div
+              className="absolute left-0 right-0 h-px bg-white/70 pointer-events-none"
+              style={{ top: `${pointer[1] * 100}%` }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,47 +21,83 @@ import {
   BoundingBoxes3DAtom,
   ShareStream,
   DetectTypeAtom,
-  FOVAtom,
   ImageSentAtom,
   PointsAtom,
   RevealOnHoverModeAtom,
   DrawModeAtom,
+  EditModeAtom,
+  RoiModeAtom,
   LinesAtom,
+  StrokeAnnotationsAtom,
   ActiveColorAtom,
   VideoRefAtom,
-  ModelSelectedAtom,
+  SegmentationMasksAtom,
+  MediaDimensionsAtom,
+  GroundTruthAtom,
+  ShowGroundTruthAtom,
+  EvaluationAtom,
+  ShowTrailsAtom,
+  TracksAtom,
+  RecordCommandAtom,
+  ViewportAtom,
+  SceneGraphAtom,
+  SelectedInstanceAtom,
+  HoveredBoxAtom,
+  RelationFilterAtom,
 } from "./atoms";
 import { getSvgPathFromStroke } from "./utils";
 import { lineOptions } from "./consts";
 import { ResizePayload, useResizeDetector } from "react-resize-detector";
-import {GoogleGenerativeAI} from "@google/generative-ai";
-
-const client = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-
-export function Content({ sceneContext }: { sceneContext: { scene: string; task: string; } | null }) {
+import { usePanZoom } from "./hooks";
+import { EditableOverlay } from "./EditableOverlay";
+import { change } from "./history";
+import { Boxes3DOverlay } from "./Boxes3DOverlay";
+import { ZoomControls } from "./ZoomControls";
+import { RoiOverlay } from "./RoiOverlay";
+import { strokeTargets } from "./strokes";
+import { SceneGraphOverlay } from "./SceneGraphOverlay";
+import { ChatOverlay } from "./ChatOverlay";
+import { Instance, groupByLabel } from "./instances";
+import { fitViewport } from "./viewport";
+
+export function Content() {
   const [imageSrc] = useAtom(ImageSrcAtom);
   const [boundingBoxes2D] = useAtom(BoundingBoxes2DAtom);
   const [boundingBoxes3D] = useAtom(BoundingBoxes3DAtom);
   const [stream] = useAtom(ShareStream);
   const [detectType] = useAtom(DetectTypeAtom);
   const [videoRef] = useAtom(VideoRefAtom);
-  const [fov] = useAtom(FOVAtom);
   const [, setImageSent] = useAtom(ImageSentAtom);
   const [points] = useAtom(PointsAtom);
+  const [segmentationMasks] = useAtom(SegmentationMasksAtom);
+  const [groundTruth] = useAtom(GroundTruthAtom);
+  const [showGroundTruth] = useAtom(ShowGroundTruthAtom);
+  const [evaluation] = useAtom(EvaluationAtom);
+  const [{ tracks }] = useAtom(TracksAtom);
+  const [showTrails] = useAtom(ShowTrailsAtom);
+  const showEvaluation = showGroundTruth && evaluation !== null;
   const [revealOnHover] = useAtom(RevealOnHoverModeAtom);
   const [hoverEntered, setHoverEntered] = useState(false);
-  const [hoveredBox, _setHoveredBox] = useState<number | null>(null);
+  const [hoveredBox, _setHoveredBox] = useAtom(HoveredBoxAtom);
   const [drawMode] = useAtom(DrawModeAtom);
+  const [editMode] = useAtom(EditModeAtom);
+  const [roiMode] = useAtom(RoiModeAtom);
+  const isEditing =
+    editMode &&
+    (detectType === "2D bounding boxes" || detectType === "Points");
   const [lines, setLines] = useAtom(LinesAtom);
+  const [strokeAnnotations] = useAtom(StrokeAnnotationsAtom);
+  const [, recordCommand] = useAtom(RecordCommandAtom);
   const [activeColor] = useAtom(ActiveColorAtom);
   const [isWebcam, setIsWebcam] = useState(false);
   const [showBboxes, setShowBboxes] = useState(true);
   const [showPoints, setShowPoints] = useState(true);
   const [showItemList, setShowItemList] = useState(false);
-  const [lastResponse, setLastResponse] = useState<any>(null);
-  const [activeItems, setActiveItems] = useState<Set<string>>(new Set());
-  const [relatedItems, setRelatedItems] = useState<{[key: string]: {[key: string]: string}}>({});
-  const [modelSelected] = useAtom(ModelSelectedAtom);
+  const [graph] = useAtom(SceneGraphAtom);
+  const [selected, setSelected] = useAtom(SelectedInstanceAtom);
+  const [relationFilter] = useAtom(RelationFilterAtom);
+  const [viewport, setViewport] = useAtom(ViewportAtom);
+  const [viewportElement, setViewportElement] = useState<HTMLDivElement | null>(null);
 
   // Handling resize and aspect ratios
   const boundingBoxContainerRef = useRef<HTMLDivElement | null>(null);
@@ -69,10 +105,8 @@ export function Content({ sceneContext }: { sceneContext: { scene: string; task:
     width: 0,
     height: 0,
   });
-  const [activeMediaDimensions, setActiveMediaDimensions] = useState({
-    width: 1,
-    height: 1,
-  });
+  const [activeMediaDimensions, setActiveMediaDimensions] =
+    useAtom(MediaDimensionsAtom);
 
   const onResize = useCallback(
     (el: ResizePayload) => {
@@ -105,168 +139,31 @@ export function Content({ sceneContext }: { sceneContext: { scene: string; task:
     }
   }, [containerDims, activeMediaDimensions]);
 
-  // Helper functions
-  function matrixMultiply(m: number[][], v: number[]): number[] {
-    return m.map((row: number[]) =>
-      row.reduce((sum, val, i) => sum + val * v[i], 0),
-    );
-  }
-
-  const linesAndLabels3D = useMemo(() => {
-    if (!boundingBoxContainer) {
-      return null;
-    }
-    let allLines = [];
-    let allLabels = [];
-    for (const box of boundingBoxes3D) {
-      const { center, size, rpy } = box;
-
-      // Convert Euler angles to quaternion
-      const [sr, sp, sy] = rpy.map((x) => Math.sin(x / 2));
-      const [cr, cp, cz] = rpy.map((x) => Math.cos(x / 2));
-      const quaternion = [
-        sr * cp * cz - cr * sp * sy,
-        cr * sp * cz + sr * cp * sy,
-        cr * cp * sy - sr * sp * cz,
-        cr * cp * cz + sr * sp * sy,
-      ];
-
-      // Calculate camera parameters
-      const height = boundingBoxContainer.height;
-      const width = boundingBoxContainer.width;
-      const f = width / (2 * Math.tan(((fov / 2) * Math.PI) / 180));
-      const cx = width / 2;
-      const cy = height / 2;
-      const intrinsics = [
-        [f, 0, cx],
-        [0, f, cy],
-        [0, 0, 1],
-      ];
-
-      // Get box vertices
-      const halfSize = size.map((s) => s / 2);
-      let corners = [];
-      for (let x of [-halfSize[0], halfSize[0]]) {
-        for (let y of [-halfSize[1], halfSize[1]]) {
-          for (let z of [-halfSize[2], halfSize[2]]) {
-            corners.push([x, y, z]);
-          }
-        }
-      }
-      corners = [
-        corners[1],
-        corners[3],
-        corners[7],
-        corners[5],
-        corners[0],
-        corners[2],
-        corners[6],
-        corners[4],
-      ];
-
-      // Apply rotation from quaternion
-      const q = quaternion;
-      const rotationMatrix = [
-        [
-          1 - 2 * q[1] ** 2 - 2 * q[2] ** 2,
-          2 * q[0] * q[1] - 2 * q[3] * q[2],
-          2 * q[0] * q[2] + 2 * q[3] * q[1],
-        ],
-        [
-          2 * q[0] * q[1] + 2 * q[3] * q[2],
-          1 - 2 * q[0] ** 2 - 2 * q[2] ** 2,
-          2 * q[1] * q[2] - 2 * q[3] * q[0],
-        ],
-        [
-          2 * q[0] * q[2] - 2 * q[3] * q[1],
-          2 * q[1] * q[2] + 2 * q[3] * q[0],
-          1 - 2 * q[0] ** 2 - 2 * q[1] ** 2,
-        ],
-      ];
-
-      const boxVertices = corners.map((corner) => {
-        const rotated = matrixMultiply(rotationMatrix, corner);
-        return rotated.map((val, idx) => val + center[idx]);
-      });
-
-      // Project 3D points to 2D
-      const tiltAngle = 90.0;
-      const viewRotationMatrix = [
-        [1, 0, 0],
-        [
-          0,
-          Math.cos((tiltAngle * Math.PI) / 180),
-          -Math.sin((tiltAngle * Math.PI) / 180),
-        ],
-        [
-          0,
-          Math.sin((tiltAngle * Math.PI) / 180),
-          Math.cos((tiltAngle * Math.PI) / 180),
-        ],
-      ];
-
-      const points = boxVertices;
-      const rotatedPoints = points.map((p) =>
-        matrixMultiply(viewRotationMatrix, p),
-      );
-      const translatedPoints = rotatedPoints.map((p) => p.map((v) => v + 0));
-      const projectedPoints = translatedPoints.map((p) =>
-        matrixMultiply(intrinsics, p),
-      );
-      const vertices = projectedPoints.map((p) => [p[0] / p[2], p[1] / p[2]]);
-
-      const topVertices = vertices.slice(0, 4);
-      const bottomVertices = vertices.slice(4, 8);
-
-      for (let i = 0; i < 4; i++) {
-        const lines = [
-          [topVertices[i], topVertices[(i + 1) % 4]],
-          [bottomVertices[i], bottomVertices[(i + 1) % 4]],
-          [topVertices[i], bottomVertices[i]],
-        ];
-
-        for (let [start, end] of lines) {
-          const dx = end[0] - start[0];
-          const dy = end[1] - start[1];
-          const length = Math.sqrt(dx * dx + dy * dy);
-          const angle = Math.atan2(dy, dx);
-
-          allLines.push({ start, end, length, angle });
-        }
-      }
-
-      // Add label with fade effect
-      const textPosition3d = points[0].map(
-        (_, idx) => points.reduce((sum, p) => sum + p[idx], 0) / points.length,
-      );
-      textPosition3d[2] += 0.1;
-
-      const textPoint = matrixMultiply(
-        intrinsics,
-        matrixMultiply(
-          viewRotationMatrix,
-          textPosition3d.map((v) => v + 0),
-        ),
-      );
-      const textPos = [
-        textPoint[0] / textPoint[2],
-        textPoint[1] / textPoint[2],
-      ];
-      allLabels.push({ label: box.label, pos: textPos });
-    }
-    return [allLines, allLabels] as const;
-  }, [boundingBoxes3D, boundingBoxContainer, fov]);
+  // Detections a stroke singles out get an outline in the stroke's color.
+  const strokeHighlights = useMemo(() => {
+    const items =
+      detectType === "Points"
+        ? points.map(({ point }) => ({ ...point, width: 0, height: 0 }))
+        : detectType === "Segmentation masks"
+          ? segmentationMasks
+          : boundingBoxes2D;
+    return strokeTargets(strokeAnnotations, items);
+  }, [strokeAnnotations, detectType, points, segmentationMasks, boundingBoxes2D]);
+  const strokeOutline = (i: number) => {
+    const color = strokeHighlights.get(i);
+    return color ? { outline: `2px solid ${color}`, outlineOffset: 2 } : {};
+  };
 
   function setHoveredBox(e: React.PointerEvent) {
     const boxes = document.querySelectorAll(".bbox");
-    const dimensionsAndIndex = Array.from(boxes).map((box, i) => {
+    const dimensionsAndIndex = Array.from(boxes).map((box) => {
       const { top, left, width, height } = box.getBoundingClientRect();
       return {
         top,
         left,
         width,
         height,
-        index: i,
+        id: (box as HTMLElement).dataset.id ?? null,
       };
     });
     // Sort smallest to largest
@@ -284,13 +181,31 @@ export function Content({ sceneContext }: { sceneContext: { scene: string; task:
       );
     });
     if (found) {
-      _setHoveredBox(found.index);
+      _setHoveredBox(found.id);
     } else {
       _setHoveredBox(null);
     }
   }
 
   const downRef = useRef<Boolean>(false);
+  const linesBeforeStrokeRef = useRef(lines);
+
+  usePanZoom(viewportElement, containerDims, !drawMode && !isEditing && !roiMode);
+
+  // Every new image or stream starts fitted.
+  useEffect(() => {
+    setViewport(fitViewport);
+  }, [imageSrc, stream, setViewport]);
+
+  // Stroke points are normalized to the overlay, whose on-screen size
+  // includes the zoom.
+  const toStrokePoint = (e: React.PointerEvent): [number, number] => {
+    const bounds = boundingBoxContainerRef.current!.getBoundingClientRect();
+    return [
+      (e.clientX - bounds.left) / bounds.width,
+      (e.clientY - bounds.top) / bounds.height,
+    ];
+  };
 
   useEffect(() => {
     if (stream) {
@@ -300,149 +215,83 @@ export function Content({ sceneContext }: { sceneContext: { scene: string; task:
     }
   }, [stream]);
 
-  // Subscribe to response updates from Prompt component
-  useEffect(() => {
-    const handleResponse = (event: CustomEvent) => {
-      setLastResponse(event.detail);
-    };
-    window.addEventListener('parsedResponse', handleResponse as EventListener);
-    return () => {
-      window.removeEventListener('parsedResponse', handleResponse as EventListener);
-    };
-  }, []);
-
-  // Get unique item names from the response
-  const getItemList = useMemo(() => {
-    if (!lastResponse) return [] as string[];
-    return Array.from(new Set(lastResponse.map((item: any) => item.label))).sort() as string[];
-  }, [lastResponse]);
-
-  // Function to analyze related objects
-  const analyzeRelatedObjects = async (item: string) => {
-    try {
-      const prompt = `Given this scene context: "${sceneContext?.scene || 'Unknown scene'}",
-        the potential task: "${sceneContext?.task || 'Unknown task'}",
-        and that the user is holding the ${item},
-
-        Find objects that are most related to this ${item} in the current scene, considering:
-        1. The overall scene context and task
-        2. Spatial relationships
-        3. Functional relationships in the context of the task
-        4. Common usage patterns
-
-        Choose only from these detected items: ${getItemList.join(", ")}
-
-        Output a JSON object where each key is a related object and its value is a brief relationship description (max 5 words).
-        Example format: {
-          "object1": "used together for cooking",
-          "object2": "located next to item",
-          "object3": "complements main task"
-        }`;
+  // The detections shown, whatever their type.
+  const instances: Instance[] = useMemo(() => {
+    const items =
+      detectType === "2D bounding boxes"
+        ? boundingBoxes2D
+        : detectType === "Points"
+          ? points
+          : detectType === "Segmentation masks"
+            ? segmentationMasks
+            : boundingBoxes3D;
+    return items.map(({ id, label }) => ({ id, label }));
+  }, [detectType, boundingBoxes2D, points, segmentationMasks, boundingBoxes3D]);
+  const itemGroups = useMemo(() => groupByLabel(instances), [instances]);
+
+  // The detections the scene graph relates to the selected one, with how
+  // they relate.
+  const relatedIds = useMemo(() => {
+    const related = new Map<string, string>();
+    const focus = graph?.nodes.findIndex(({ id }) => id === selected) ?? -1;
+    if (!graph || focus === -1) return related;
+    for (const { subject, relation, object, description } of graph.relations) {
+      if (!relationFilter[relation] || (subject !== focus && object !== focus)) continue;
+      related.set(graph.nodes[subject === focus ? object : subject].id, description || relation);
+    }
+    return related;
+  }, [graph, selected, relationFilter]);
 
-      console.log('Sending prompt:', prompt);
+  const instanceColor = (id: string, color: string) =>
+    id === selected ? "#ff3b3b" : relatedIds.has(id) ? "#22c55e" : color;
 
-      const result = await client
-        .getGenerativeModel(
-          {model: modelSelected},
-          {apiVersion: 'v1beta'}
-        )
-        .generateContent({
-          contents: [{
-            role: "user",
-            parts: [{
-              text: prompt
-            }]
-          }]
-        });
-      
-      const responseText = await result.response.text();
-      console.log('Related items response:', responseText);
-      
-      // Parse JSON response
-      let relatedObjects: {[key: string]: string} = {};
-      try {
-        // Extract JSON if it's wrapped in markdown code blocks
-        const jsonText = responseText.includes('```') ? 
-          responseText.substring(responseText.indexOf('```json') + 7, responseText.lastIndexOf('```')).trim() :
-          responseText;
-        relatedObjects = JSON.parse(jsonText);
-        // Filter to only include items from getItemList
-        relatedObjects = Object.fromEntries(
-          Object.entries(relatedObjects)
-            .filter(([item]) => getItemList.includes(item))
-        );
-      } catch (e) {
-        console.error('Error parsing related items JSON:', e);
-      }
-      
-      console.log('Filtered related objects:', relatedObjects);
-      
-      setRelatedItems(prev => ({
-        ...prev,
-        [item]: relatedObjects
-      }));
-    } catch (error) {
-      console.error('Error analyzing related objects:', error);
-    }
-  };
+  function itemRow(id: string, text: string) {
+    const relationship = relatedIds.get(id);
+    return (
+      <div
+        className={`text-sm cursor-pointer transition-colors ${
+          id === selected ? "text-[#3B68FF] font-medium" :
+          relationship ? "text-[#22c55e] font-medium" : ""
+        } ${id === hoveredBox ? "underline" : ""} hover:text-[#3B68FF]`}
+        title={graph ? undefined : "Build a scene graph to see how items relate"}
+        onClick={() => setSelected(id === selected ? null : id)}
+        onPointerEnter={() => _setHoveredBox(id)}
+        onPointerLeave={() => _setHoveredBox(null)}
+      >
+        {text}
+        {relationship && (
+          <span className="ml-2 text-xs text-gray-500">
+            ({relationship})
+          </span>
+        )}
+      </div>
+    );
+  }
 
   return (
     <div ref={containerRef} className="w-full grow relative">
       {/* Detected items list */}
       <div className="absolute left-4 top-4 z-10 bg-white border border-gray-200 rounded-lg shadow-lg p-4 w-[200px]">
-        <div className="font-medium mb-2">Detected Items ({getItemList.length}):</div>
-        <ul className="list-disc pl-5">
-          {getItemList.map((item) => {
-            const isActive = activeItems.has(item);
-            const isRelated = Object.entries(relatedItems).some(([activeItem, related]) => 
-              activeItems.has(activeItem) && related.hasOwnProperty(item)
-            );
-            
-            // Find relationship text if item is related
-            const relationship = Object.entries(relatedItems).reduce((acc, [activeItem, related]) => {
-              if (activeItems.has(activeItem) && related[item]) {
-                return related[item];
-              }
-              return acc;
-            }, '');
-            
-            return (
-              <li key={item}>
-                <div 
-                  className={`text-sm cursor-pointer transition-colors ${
-                    isActive ? "text-[#3B68FF] font-medium" : 
-                    isRelated ? "text-[#22c55e] font-medium" : ""
-                  } hover:text-[#3B68FF]`}
-                  onClick={() => {
-                    setActiveItems(prev => {
-                      const newSet = new Set(prev);
-                      if (newSet.has(item)) {
-                        newSet.delete(item);
-                        // Clear related items when deactivated
-                        setRelatedItems(prev => {
-                          const newRelated = { ...prev };
-                          delete newRelated[item];
-                          return newRelated;
-                        });
-                      } else {
-                        newSet.add(item);
-                        // Analyze related objects when activated
-                        analyzeRelatedObjects(item);
-                      }
-                      return newSet;
-                    });
-                  }}
-                >
-                  {item}
-                  {isRelated && relationship && (
-                    <span className="ml-2 text-xs text-gray-500">
-                      ({relationship})
-                    </span>
-                  )}
-                </div>
-              </li>
-            );
-          })}
+        <div className="font-medium mb-2">Detected Items ({instances.length}):</div>
+        <ul className="list-disc pl-5 max-h-[50vh] overflow-y-auto">
+          {itemGroups.map(({ label, ids }) => (
+            <li key={label}>
+              {ids.length === 1 ? (
+                itemRow(ids[0], label)
+              ) : (
+                <>
+                  <div className="text-sm">
+                    {label} ({ids.length})
+                  </div>
+                  <ul className="pl-3">
+                    {ids.map((id, i) => (
+                      <li key={id}>{itemRow(id, `#${i + 1}`)}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </li>
+          ))}
         </ul>
       </div>
 
@@ -463,328 +312,337 @@ export function Content({ sceneContext }: { sceneContext: { scene: string; task:
           </button>
         </div>
       )}
-      {stream ? (
-        <video
-          className="absolute top-0 left-0 w-full h-full object-contain"
-          autoPlay
-          playsInline
-          muted={isWebcam}
-          onLoadedMetadata={(e) => {
-            setActiveMediaDimensions({
-              width: e.currentTarget.videoWidth,
-              height: e.currentTarget.videoHeight,
-            });
-          }}
-          ref={(video) => {
-            videoRef.current = video;
-            if (video && !video.srcObject) {
-              video.srcObject = stream;
-            }
-          }}
-        />
-      ) : imageSrc ? (
-        <img
-          src={imageSrc}
-          className="absolute top-0 left-0 w-full h-full object-contain"
-          alt="Uploaded image"
-          onLoad={(e) => {
-            setActiveMediaDimensions({
-              width: e.currentTarget.naturalWidth,
-              height: e.currentTarget.naturalHeight,
-            });
-          }}
-        />
-      ) : null}
       <div
-        className={`absolute w-full h-full left-1/2 top-1/2 transform -translate-x-1/2 -translate-y-1/2 ${hoverEntered ? "hide-box" : ""} ${drawMode ? "cursor-crosshair" : ""}`}
-        ref={boundingBoxContainerRef}
-        onPointerEnter={(e) => {
-          if (revealOnHover && !drawMode) {
-            setHoverEntered(true);
-            setHoveredBox(e);
-          }
-        }}
-        onPointerMove={(e) => {
-          if (revealOnHover && !drawMode) {
-            setHoverEntered(true);
-            setHoveredBox(e);
-          }
-          if (downRef.current) {
-            const parentBounds =
-              boundingBoxContainerRef.current!.getBoundingClientRect();
-            setLines((prev) => [
-              ...prev.slice(0, prev.length - 1),
-              [
-                [
-                  ...prev[prev.length - 1][0],
-                  [
-                    (e.clientX - parentBounds.left) /
-                    boundingBoxContainer!.width,
-                    (e.clientY - parentBounds.top) /
-                    boundingBoxContainer!.height,
-                  ],
-                ],
-                prev[prev.length - 1][1],
-              ],
-            ]);
-          }
-        }}
-        onPointerLeave={(e) => {
-          if (revealOnHover && !drawMode) {
-            setHoverEntered(false);
-            setHoveredBox(e);
-          }
-        }}
-        onPointerDown={(e) => {
-          if (drawMode) {
-            setImageSent(false);
-            (e.target as HTMLElement).setPointerCapture(e.pointerId);
-            downRef.current = true;
-            const parentBounds =
-              boundingBoxContainerRef.current!.getBoundingClientRect();
-            setLines((prev) => [
-              ...prev,
-              [
-                [
+        ref={setViewportElement}
+        className={`absolute inset-0 overflow-hidden ${
+          viewport.zoom > 1 && !drawMode && !isEditing && !roiMode ? "cursor-grab" : ""
+        }`}
+      >
+        <div
+          className="absolute inset-0"
+          style={{
+            transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+            transformOrigin: "0 0",
+          }}
+        >
+          {stream ? (
+            <video
+              className="absolute top-0 left-0 w-full h-full object-contain"
+              autoPlay
+              playsInline
+              muted={isWebcam}
+              onLoadedMetadata={(e) => {
+                setActiveMediaDimensions({
+                  width: e.currentTarget.videoWidth,
+                  height: e.currentTarget.videoHeight,
+                });
+              }}
+              ref={(video) => {
+                videoRef.current = video;
+                if (video && !video.srcObject) {
+                  video.srcObject = stream;
+                }
+              }}
+            />
+          ) : imageSrc ? (
+            <img
+              src={imageSrc}
+              className="absolute top-0 left-0 w-full h-full object-contain"
+              alt="Uploaded image"
+              onLoad={(e) => {
+                setActiveMediaDimensions({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                });
+              }}
+            />
+          ) : null}
+          <div
+            className={`absolute w-full h-full left-1/2 top-1/2 transform -translate-x-1/2 -translate-y-1/2 ${hoverEntered ? "hide-box" : ""} ${drawMode ? "cursor-crosshair" : ""}`}
+            ref={boundingBoxContainerRef}
+            onPointerEnter={(e) => {
+              if (revealOnHover && !drawMode && !isEditing) {
+                setHoverEntered(true);
+                setHoveredBox(e);
+              }
+            }}
+            onPointerMove={(e) => {
+              if (revealOnHover && !drawMode && !isEditing) {
+                setHoverEntered(true);
+                setHoveredBox(e);
+              }
+              if (downRef.current) {
+                const point = toStrokePoint(e);
+                setLines((prev) => [
+                  ...prev.slice(0, prev.length - 1),
                   [
-                    (e.clientX - parentBounds.left) /
-                    boundingBoxContainer!.width,
-                    (e.clientY - parentBounds.top) /
-                    boundingBoxContainer!.height,
+                    [...prev[prev.length - 1][0], point],
+                    prev[prev.length - 1][1],
                   ],
-                ],
-                activeColor,
-              ],
-            ]);
-          }
-        }}
-        onPointerUp={(e) => {
-          if (drawMode) {
-            (e.target as HTMLElement).releasePointerCapture(e.pointerId);
-            downRef.current = false;
-          }
-        }}
-        style={{
-          width: boundingBoxContainer.width,
-          height: boundingBoxContainer.height,
-        }}
-      >
-        {lines.length > 0 && (
-          <svg
-            className="absolute top-0 left-0 w-full h-full"
+                ]);
+              }
+            }}
+            onPointerLeave={(e) => {
+              if (revealOnHover && !drawMode && !isEditing) {
+                setHoverEntered(false);
+                setHoveredBox(e);
+              }
+            }}
+            onPointerDown={(e) => {
+              if (drawMode && e.button === 0) {
+                setImageSent(false);
+                (e.target as HTMLElement).setPointerCapture(e.pointerId);
+                downRef.current = true;
+                linesBeforeStrokeRef.current = lines;
+                const point = toStrokePoint(e);
+                setLines((prev) => [...prev, [[point], activeColor]]);
+              }
+            }}
+            onPointerUp={(e) => {
+              if (drawMode && downRef.current) {
+                (e.target as HTMLElement).releasePointerCapture(e.pointerId);
+                downRef.current = false;
+                recordCommand({
+                  label: "Draw stroke",
+                  changes: [change(LinesAtom, linesBeforeStrokeRef.current, lines)],
+                });
+              }
+            }}
             style={{
-              pointerEvents: "none",
-              width: boundingBoxContainer?.width,
-              height: boundingBoxContainer?.height,
+              width: boundingBoxContainer.width,
+              height: boundingBoxContainer.height,
             }}
           >
-            {lines.map(([points, color], i) => (
-              <path
-                key={i}
-                d={getSvgPathFromStroke(
-                  getStroke(
-                    points.map(([x, y]) => [
-                      x * boundingBoxContainer!.width,
-                      y * boundingBoxContainer!.height,
-                      0.5,
-                    ]),
-                    lineOptions,
-                  ),
-                )}
-                fill={color}
-              />
-            ))}
-          </svg>
-        )}
-
-        {/* Relationship Lines */}
-        <svg
-          className="absolute top-0 left-0 w-full h-full pointer-events-none"
-          style={{
-            width: boundingBoxContainer?.width,
-            height: boundingBoxContainer?.height,
-            opacity: hoverEntered ? 1 : 0,
-            transition: 'opacity 0.2s ease-in-out',
-            zIndex: 20
-          }}
-        >
-          {Object.entries(relatedItems).map(([activeItem, related]) => {
-            if (!activeItems.has(activeItem)) return null;
-            
-            // Find the active box
-            const activeBox = boundingBoxes2D.find(box => box.label === activeItem);
-            if (!activeBox) return null;
-            
-            const activeCenter = {
-              x: (activeBox.x + activeBox.width/2) * boundingBoxContainer!.width,
-              y: (activeBox.y + activeBox.height/2) * boundingBoxContainer!.height
-            };
-
-            return Object.entries(related).map(([relatedItem, relationship]) => {
-              const relatedBox = boundingBoxes2D.find(box => box.label === relatedItem);
-              if (!relatedBox) return null;
-
-              const relatedCenter = {
-                x: (relatedBox.x + relatedBox.width/2) * boundingBoxContainer!.width,
-                y: (relatedBox.y + relatedBox.height/2) * boundingBoxContainer!.height
-              };
-
-              // Calculate midpoint for label
-              const midX = (activeCenter.x + relatedCenter.x) / 2;
-              const midY = (activeCenter.y + relatedCenter.y) / 2;
-
-              const showLabel = hoveredBox !== null && (
-                boundingBoxes2D[hoveredBox].label === activeItem ||
-                boundingBoxes2D[hoveredBox].label === relatedItem
-              );
-
-              return (
-                <g key={`${activeItem}-${relatedItem}`}>
-                  <line
-                    x1={activeCenter.x}
-                    y1={activeCenter.y}
-                    x2={relatedCenter.x}
-                    y2={relatedCenter.y}
-                    stroke="#22c55e"
-                    strokeWidth="2"
-                    strokeDasharray="4"
+            {lines.length > 0 && (
+              <svg
+                className="absolute top-0 left-0 w-full h-full"
+                style={{
+                  pointerEvents: "none",
+                  width: boundingBoxContainer?.width,
+                  height: boundingBoxContainer?.height,
+                }}
+              >
+                {lines.map(([points, color], i) => (
+                  <path
+                    key={i}
+                    d={getSvgPathFromStroke(
+                      getStroke(
+                        points.map(([x, y]) => [
+                          x * boundingBoxContainer!.width,
+                          y * boundingBoxContainer!.height,
+                          0.5,
+                        ]),
+                        lineOptions,
+                      ),
+                    )}
+                    fill={color}
                   />
-                  {showLabel && (
-                    <>
-                      <rect
-                        x={midX}
-                        y={midY - 45}
-                        width={relationship.length * 5.5 + 12}
-                        height="16"
-                        fill="white"
-                        fillOpacity="0.8"
-                        stroke="#22c55e"
-                        strokeWidth="1"
-                        rx="4"
-                        transform={`translate(${-(relationship.length * 5.5 + 12) / 2}, 0)`}
-                      />
-                      <text
-                        x={midX}
-                        y={midY - 37}
-                        textAnchor="middle"
-                        dominantBaseline="middle"
-                        className="text-[8px] fill-gray-600 font-medium"
+                ))}
+              </svg>
+            )}
+
+            <SceneGraphOverlay />
+            <ChatOverlay />
+
+            {isEditing && <EditableOverlay />}
+            <RoiOverlay />
+            {detectType === "2D bounding boxes" &&
+              !isEditing &&
+              boundingBoxes2D.map((box, i) => {
+                const isActive = box.id === selected;
+                const isRelated = relatedIds.has(box.id);
+                
+                const isFalsePositive =
+                  showEvaluation && evaluation.falsePositives.includes(i);
+                const track =
+                  box.trackId !== undefined
+                    ? tracks.find(({ id }) => id === box.trackId)
+                    : undefined;
+                
+                return (
+                  <div key={box.id}>
+                    {showBboxes && (
+                      <div
+                        data-id={box.id}
+                        className={`absolute bbox border-2 ${
+                          isActive ? "border-[#ff3b3b]" : 
+                          isRelated ? "border-[#22c55e]" :
+                          isFalsePositive ? "border-[#e11d48]" :
+                          "border-[#3B68FF]"
+                        } ${box.id === hoveredBox ? "reveal border-4" : ""} ${
+                          track?.missed ? "border-dashed opacity-60" : ""
+                        }`}
+                        style={{
+                          transformOrigin: "0 0",
+                          top: box.y * 100 + "%",
+                          left: box.x * 100 + "%",
+                          width: box.width * 100 + "%",
+                          height: box.height * 100 + "%",
+                          // Glide between tracker updates instead of jumping.
+                          transition: track
+                            ? "top 0.3s, left 0.3s, width 0.3s, height 0.3s"
+                            : undefined,
+                          ...strokeOutline(i),
+                        }}
                       >
-                        {relationship}
-                      </text>
-                    </>
-                  )}
-                </g>
-              );
-            });
-          })}
-        </svg>
-
-        {detectType === "2D bounding boxes" &&
-          boundingBoxes2D.map((box, i) => {
-            const isActive = activeItems.has(box.label);
-            const isRelated = Object.entries(relatedItems).some(([activeItem, related]) => 
-              activeItems.has(activeItem) && related.hasOwnProperty(box.label)
-            );
-            
-            return (
-              <div key={i}>
-                {showBboxes && (
+                        {track && (
+                          <div className="absolute left-0 top-0 bg-[#3B68FF] text-white text-[8px] px-1">
+                            #{track.id}
+                          </div>
+                        )}
+                        {/* <div className={`${
+                          isActive ? "bg-[#ff3b3b]" : 
+                          isRelated ? "bg-[#22c55e]" :
+                          "bg-[#3B68FF]"
+                        } text-white absolute left-0 top-0 text-[8px] px-1`}>
+                          {box.label}
+                        </div> */}
+                        {isFalsePositive && (
+                          <div className="absolute right-0 top-0 bg-[#e11d48] text-white text-[8px] px-1">
+                            FP
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {showPoints && (
+                      <div
+                        className="absolute bg-red"
+                        style={{
+                          left: `${(box.x + box.width/2) * 100}%`,
+                          top: `${(box.y + box.height/2) * 100}%`,
+                        }}
+                      >
+                        <div className={`absolute ${
+                          isActive ? "bg-[#ff3b3b]" : 
+                          isRelated ? "bg-[#22c55e]" :
+                          "bg-[#3B68FF]"
+                        } text-center text-white text-[8px] px-1 bottom-4 rounded-sm -translate-x-1/2 left-1/2`}>
+                          {box.label}
+                        </div>
+                        <div className={`absolute w-4 h-4 ${
+                          isActive ? "bg-[#ff3b3b]" : 
+                          isRelated ? "bg-[#22c55e]" :
+                          "bg-[#3B68FF]"
+                        } rounded-full border-white border-[2px] -translate-x-1/2 -translate-y-1/2`}></div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            {detectType === "2D bounding boxes" && showTrails && tracks.length > 0 && (
+              <svg
+                className="absolute top-0 left-0 w-full h-full pointer-events-none"
+                viewBox="0 0 1 1"
+                preserveAspectRatio="none"
+              >
+                {tracks.map((track) => (
+                  <polyline
+                    key={track.id}
+                    points={track.trail.map(([x, y]) => `${x},${y}`).join(" ")}
+                    fill="none"
+                    stroke="#3B68FF"
+                    strokeWidth={2}
+                    strokeOpacity={track.missed ? 0.4 : 0.8}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </svg>
+            )}
+            {detectType === "2D bounding boxes" &&
+              showEvaluation &&
+              groundTruth.map((box, i) => {
+                const isMiss = evaluation.misses.includes(i);
+                return (
                   <div
-                    className={`absolute bbox border-2 ${
-                      isActive ? "border-[#ff3b3b]" : 
-                      isRelated ? "border-[#22c55e]" :
-                      "border-[#3B68FF]"
-                    } ${i === hoveredBox ? "reveal" : ""}`}
+                    key={i}
+                    className={`absolute pointer-events-none border-dashed ${
+                      isMiss ? "border-2 border-[#f97316]" : "border border-[#f59e0b]"
+                    }`}
                     style={{
-                      transformOrigin: "0 0",
                       top: box.y * 100 + "%",
                       left: box.x * 100 + "%",
                       width: box.width * 100 + "%",
                       height: box.height * 100 + "%",
                     }}
                   >
-                    {/* <div className={`${
-                      isActive ? "bg-[#ff3b3b]" : 
-                      isRelated ? "bg-[#22c55e]" :
-                      "bg-[#3B68FF]"
-                    } text-white absolute left-0 top-0 text-[8px] px-1`}>
-                      {box.label}
-                    </div> */}
+                    <div
+                      className={`absolute left-0 bottom-0 translate-y-full text-white text-[8px] px-1 ${
+                        isMiss ? "bg-[#f97316]" : "bg-[#f59e0b]"
+                      }`}
+                    >
+                      {isMiss ? `miss: ${box.label}` : box.label}
+                    </div>
                   </div>
-                )}
-                {showPoints && (
+                );
+              })}
+            {detectType === "Points" &&
+              !isEditing &&
+              points.map((point, i) => {
+                const color = instanceColor(point.id, "#3B68FF");
+                return (
                   <div
+                    key={point.id}
                     className="absolute bg-red"
                     style={{
-                      left: `${(box.x + box.width/2) * 100}%`,
-                      top: `${(box.y + box.height/2) * 100}%`,
+                      left: `${point.point.x * 100}%`,
+                      top: `${point.point.y * 100}%`,
                     }}
                   >
-                    <div className={`absolute ${
-                      isActive ? "bg-[#ff3b3b]" : 
-                      isRelated ? "bg-[#22c55e]" :
-                      "bg-[#3B68FF]"
-                    } text-center text-white text-[8px] px-1 bottom-4 rounded-sm -translate-x-1/2 left-1/2`}>
-                      {box.label}
+                    <div
+                      className="absolute text-center text-white text-xs px-1 bottom-4 rounded-sm -translate-x-1/2 left-1/2"
+                      style={{ backgroundColor: color }}
+                    >
+                      {point.label}
                     </div>
-                    <div className={`absolute w-4 h-4 ${
-                      isActive ? "bg-[#ff3b3b]" : 
-                      isRelated ? "bg-[#22c55e]" :
-                      "bg-[#3B68FF]"
-                    } rounded-full border-white border-[2px] -translate-x-1/2 -translate-y-1/2`}></div>
+                    <div
+                      className={`absolute rounded-full border-white border-[2px] -translate-x-1/2 -translate-y-1/2 ${
+                        point.id === hoveredBox ? "w-5 h-5" : "w-4 h-4"
+                      }`}
+                      style={{ backgroundColor: color, ...strokeOutline(i) }}
+                    ></div>
+                  </div>
+                );
+              })}
+            {detectType === "Segmentation masks" &&
+              segmentationMasks.map((mask, i) => (
+                <div
+                  key={mask.id}
+                  data-id={mask.id}
+                  className={`absolute bbox border-2 ${mask.id === hoveredBox ? "reveal border-4" : ""}`}
+                  style={{
+                    borderColor: instanceColor(mask.id, mask.color),
+                    top: mask.y * 100 + "%",
+                    left: mask.x * 100 + "%",
+                    width: mask.width * 100 + "%",
+                    height: mask.height * 100 + "%",
+                    ...strokeOutline(i),
+                  }}
+                >
+                  <img
+                    src={mask.imageData}
+                    className="absolute top-0 left-0 w-full h-full"
+                    alt=""
+                  />
+                  <div
+                    className="absolute left-0 top-0 text-white text-xs px-1 -translate-y-full"
+                    style={{ backgroundColor: instanceColor(mask.id, mask.color) }}
+                  >
+                    {mask.label}
                   </div>
-                )}
-              </div>
-            );
-          })}
-        {detectType === "Points" &&
-          points.map((point, i) => {
-            return (
-              <div
-                key={i}
-                className="absolute bg-red"
-                style={{
-                  left: `${point.point.x * 100}%`,
-                  top: `${point.point.y * 100}%`,
-                }}
-              >
-                <div className="absolute bg-[#3B68FF] text-center text-white text-xs px-1 bottom-4 rounded-sm -translate-x-1/2 left-1/2">
-                  {point.label}
                 </div>
-                <div className="absolute w-4 h-4 bg-[#3B68FF] rounded-full border-white border-[2px] -translate-x-1/2 -translate-y-1/2"></div>
-              </div>
-            );
-          })}
-        {detectType === "3D bounding boxes" && linesAndLabels3D ? (
-          <>
-            {linesAndLabels3D[0].map((line, i) => (
-              <div
-                key={i}
-                className="absolute h-[2px] bg-[#3B68FF]"
-                style={{
-                  width: `${line.length}px`,
-                  transform: `translate(${line.start[0]}px, ${line.start[1]}px) rotate(${line.angle}rad)`,
-                  transformOrigin: "0 0",
-                }}
-              ></div>
-            ))}
-            {linesAndLabels3D[1].map((label, i) => (
-              <div
-                key={i}
-                className="absolute bg-[#3B68FF] text-white text-xs px-1"
-                style={{
-                  top: `${label.pos[1]}px`,
-                  left: `${label.pos[0]}px`,
-                  transform: "translate(-50%, -50%)",
-                }}
-              >
-                {label.label}
-              </div>
-            ))}
-          </>
-        ) : null}
+              ))}
+            {detectType === "3D bounding boxes" && boundingBoxContainer ? (
+              <Boxes3DOverlay
+                width={boundingBoxContainer.width}
+                height={boundingBoxContainer.height}
+              />
+            ) : null}
+          </div>
+        </div>
       </div>
+      {(stream || imageSrc) && (
+        <ZoomControls area={containerDims} media={boundingBoxContainer} />
+      )}
     </div>
   );
 }
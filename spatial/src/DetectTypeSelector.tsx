@@ -21,7 +21,12 @@ export function DetectTypeSelector() {
     <div className="flex flex-col flex-shrink-0">
       <div className="mb-3 uppercase">Give me:</div>
       <div className="flex flex-col gap-3">
-        {["2D bounding boxes", "Points", "3D bounding boxes"].map((label) => (
+        {[
+          "2D bounding boxes",
+          "Segmentation masks",
+          "Points",
+          "3D bounding boxes",
+        ].map((label) => (
           <SelectOption key={label} label={label} />
         ))}
       </div>
@@ -0,0 +1,410 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useEffect, useRef, useState } from "react";
+import {
+  BoundingBoxes2DAtom,
+  CommitAtom,
+  DetectTypeAtom,
+  PointsAtom,
+  RecordCommandAtom,
+} from "./atoms";
+import { BoundingBox2DType } from "./Types";
+import { assign, change } from "./history";
+import { isTextInput } from "./utils";
+
+type Handle = "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw";
+
+const handles: Handle[] = ["nw", "n", "ne", "e", "se", "s", "sw", "w"];
+
+const handleCursors: Record<Handle, string> = {
+  n: "ns-resize",
+  s: "ns-resize",
+  e: "ew-resize",
+  w: "ew-resize",
+  ne: "nesw-resize",
+  sw: "nesw-resize",
+  nw: "nwse-resize",
+  se: "nwse-resize",
+};
+
+type Drag =
+  | { kind: "move"; index: number; start: [number, number]; box: BoundingBox2DType }
+  | { kind: "resize"; index: number; handle: Handle; box: BoundingBox2DType }
+  | { kind: "create"; index: number; start: [number, number] }
+  | { kind: "point"; index: number };
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+// Smallest box, as a fraction of the image, that a drag will create.
+const minBoxSize = 0.005;
+
+// Lets 2D boxes and points be moved, resized, relabelled, added and deleted.
+// Every change is written straight back to the atoms in normalized
+// coordinates, measured against this overlay's on-screen rect.
+export function EditableOverlay() {
+  const [detectType] = useAtom(DetectTypeAtom);
+  const [boxes, setBoxes] = useAtom(BoundingBoxes2DAtom);
+  const [points, setPoints] = useAtom(PointsAtom);
+  const [, commit] = useAtom(CommitAtom);
+  const [, recordCommand] = useAtom(RecordCommandAtom);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [renaming, setRenaming] = useState<number | null>(null);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  // What the boxes and points looked like when the current drag started.
+  const beforeDragRef = useRef({ boxes, points });
+  const isPoints = detectType === "Points";
+
+  useEffect(() => {
+    setSelected(null);
+    setRenaming(null);
+  }, [detectType]);
+
+  function toNormalized(e: React.PointerEvent | PointerEvent): [number, number] {
+    const rect = rootRef.current!.getBoundingClientRect();
+    return [
+      clamp((e.clientX - rect.left) / rect.width),
+      clamp((e.clientY - rect.top) / rect.height),
+    ];
+  }
+
+  function remove(index: number) {
+    commit(
+      isPoints
+        ? {
+            label: "Delete point",
+            updates: [
+              assign(PointsAtom, points.filter((_, i) => i !== index)),
+            ],
+          }
+        : {
+            label: "Delete box",
+            updates: [
+              assign(BoundingBoxes2DAtom, boxes.filter((_, i) => i !== index)),
+            ],
+          },
+    );
+    setSelected(null);
+    setRenaming(null);
+  }
+
+  function rename(index: number, label: string) {
+    const trimmed = label.trim();
+    const current = isPoints ? points[index] : boxes[index];
+    if (trimmed && trimmed !== current?.label) {
+      commit(
+        isPoints
+          ? {
+              label: "Rename point",
+              updates: [
+                assign(
+                  PointsAtom,
+                  points.map((p, i) =>
+                    i === index ? { ...p, label: trimmed } : p,
+                  ),
+                ),
+              ],
+            }
+          : {
+              label: "Rename box",
+              updates: [
+                assign(
+                  BoundingBoxes2DAtom,
+                  boxes.map((b, i) =>
+                    i === index ? { ...b, label: trimmed } : b,
+                  ),
+                ),
+              ],
+            },
+      );
+    }
+    setRenaming(null);
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (selected === null || renaming !== null || isTextInput(e.target)) return;
+      // Undo can leave the selection pointing past the end of the list.
+      if (selected >= (isPoints ? points : boxes).length) return;
+      if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        remove(selected);
+      } else if (e.key === "Escape") {
+        setSelected(null);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  function onPointerMove(e: React.PointerEvent) {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const [x, y] = toNormalized(e);
+
+    if (drag.kind === "point") {
+      setPoints((prev) =>
+        prev.map((p, i) => (i === drag.index ? { ...p, point: { x, y } } : p)),
+      );
+      return;
+    }
+
+    let next: BoundingBox2DType;
+    if (drag.kind === "create") {
+      const [sx, sy] = drag.start;
+      next = {
+        id: boxes[drag.index].id,
+        x: Math.min(sx, x),
+        y: Math.min(sy, y),
+        width: Math.abs(x - sx),
+        height: Math.abs(y - sy),
+        label: boxes[drag.index].label,
+      };
+    } else if (drag.kind === "move") {
+      const { box, start } = drag;
+      next = {
+        ...box,
+        x: Math.min(1 - box.width, Math.max(0, box.x + x - start[0])),
+        y: Math.min(1 - box.height, Math.max(0, box.y + y - start[1])),
+      };
+    } else {
+      const { box, handle } = drag;
+      let left = box.x;
+      let top = box.y;
+      let right = box.x + box.width;
+      let bottom = box.y + box.height;
+      if (handle.includes("w")) left = x;
+      if (handle.includes("e")) right = x;
+      if (handle.includes("n")) top = y;
+      if (handle.includes("s")) bottom = y;
+      next = {
+        ...box,
+        x: Math.min(left, right),
+        y: Math.min(top, bottom),
+        width: Math.abs(right - left),
+        height: Math.abs(bottom - top),
+      };
+    }
+    setBoxes((prev) => prev.map((b, i) => (i === drag.index ? next : b)));
+  }
+
+  function onPointerUp(e: React.PointerEvent) {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    rootRef.current?.releasePointerCapture(e.pointerId);
+    if (!drag) return;
+    const before = beforeDragRef.current;
+    if (drag.kind === "point") {
+      if (points !== before.points) {
+        recordCommand({
+          label: "Move point",
+          changes: [change(PointsAtom, before.points, points)],
+        });
+      }
+      return;
+    }
+    if (drag.kind === "create") {
+      const box = boxes[drag.index];
+      if (box.width < minBoxSize || box.height < minBoxSize) {
+        setBoxes(before.boxes);
+        setSelected(null);
+        return;
+      }
+      setRenaming(drag.index);
+    }
+    if (boxes !== before.boxes) {
+      recordCommand({
+        label: { create: "Add box", move: "Move box", resize: "Resize box" }[
+          drag.kind
+        ],
+        changes: [change(BoundingBoxes2DAtom, before.boxes, boxes)],
+      });
+    }
+  }
+
+  function startDrag(e: React.PointerEvent, drag: Drag) {
+    e.stopPropagation();
+    rootRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+    beforeDragRef.current = { boxes, points };
+    setSelected(drag.index);
+  }
+
+  return (
+    <div
+      ref={rootRef}
+      className="absolute top-0 left-0 w-full h-full cursor-crosshair"
+      style={{ zIndex: 30 }}
+      onPointerDown={(e) => {
+        if (renaming !== null) return;
+        const [x, y] = toNormalized(e);
+        if (isPoints) {
+          commit({
+            label: "Add point",
+            updates: [
+              assign(PointsAtom, [
+                ...points,
+                { id: crypto.randomUUID(), point: { x, y }, label: "new point" },
+              ]),
+            ],
+          });
+          setSelected(points.length);
+          setRenaming(points.length);
+        } else {
+          setBoxes((prev) => [
+            ...prev,
+            { id: crypto.randomUUID(), x, y, width: 0, height: 0, label: "new object" },
+          ]);
+          startDrag(e, { kind: "create", index: boxes.length, start: [x, y] });
+        }
+      }}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+    >
+      {!isPoints &&
+        boxes.map((box, i) => (
+          <div
+            key={i}
+            className={`absolute border-2 cursor-move ${
+              i === selected ? "border-[#ff3b3b]" : "border-[#3B68FF]"
+            }`}
+            style={{
+              top: box.y * 100 + "%",
+              left: box.x * 100 + "%",
+              width: box.width * 100 + "%",
+              height: box.height * 100 + "%",
+            }}
+            onPointerDown={(e) =>
+              startDrag(e, { kind: "move", index: i, start: toNormalized(e), box })
+            }
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              setRenaming(i);
+            }}
+          >
+            <Label
+              label={box.label}
+              selected={i === selected}
+              renaming={i === renaming}
+              onRename={(label) => rename(i, label)}
+              onDelete={() => remove(i)}
+            />
+            {i === selected &&
+              handles.map((handle) => (
+                <div
+                  key={handle}
+                  className="absolute w-2.5 h-2.5 bg-white border-2 border-[#ff3b3b] -translate-x-1/2 -translate-y-1/2"
+                  style={{
+                    left: handle.includes("w") ? "0%" : handle.includes("e") ? "100%" : "50%",
+                    top: handle.includes("n") ? "0%" : handle.includes("s") ? "100%" : "50%",
+                    cursor: handleCursors[handle],
+                  }}
+                  onPointerDown={(e) =>
+                    startDrag(e, { kind: "resize", index: i, handle, box })
+                  }
+                />
+              ))}
+          </div>
+        ))}
+      {isPoints &&
+        points.map((point, i) => (
+          <div
+            key={i}
+            className="absolute"
+            style={{
+              left: `${point.point.x * 100}%`,
+              top: `${point.point.y * 100}%`,
+            }}
+          >
+            <div
+              className={`absolute w-4 h-4 rounded-full border-white border-[2px] -translate-x-1/2 -translate-y-1/2 cursor-move ${
+                i === selected ? "bg-[#ff3b3b]" : "bg-[#3B68FF]"
+              }`}
+              onPointerDown={(e) => startDrag(e, { kind: "point", index: i })}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                setRenaming(i);
+              }}
+            />
+            <div className="absolute bottom-4 -translate-x-1/2 left-1/2">
+              <Label
+                label={point.label}
+                selected={i === selected}
+                renaming={i === renaming}
+                onRename={(label) => rename(i, label)}
+                onDelete={() => remove(i)}
+              />
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function Label({
+  label,
+  selected,
+  renaming,
+  onRename,
+  onDelete,
+}: {
+  label: string;
+  selected: boolean;
+  renaming: boolean;
+  onRename: (label: string) => void;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState(label);
+
+  useEffect(() => {
+    if (renaming) setDraft(label);
+  }, [renaming, label]);
+
+  return (
+    <div
+      className={`absolute left-0 bottom-full flex items-center whitespace-nowrap text-white text-xs ${
+        selected ? "bg-[#ff3b3b]" : "bg-[#3B68FF]"
+      }`}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      {renaming ? (
+        <input
+          type="text"
+          autoFocus
+          className="text-xs px-1 py-0 text-black"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => onRename(draft)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") onRename(draft);
+            if (e.key === "Escape") onRename(label);
+          }}
+        />
+      ) : (
+        <div className="px-1">{label}</div>
+      )}
+      {selected && !renaming && (
+        <button
+          className="border-none rounded-none min-h-0 px-1 py-0 bg-transparent !text-white"
+          title="Delete"
+          onClick={onDelete}
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+}
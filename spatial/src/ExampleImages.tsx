@@ -13,13 +13,14 @@
 // limitations under the License.
 
 import { useAtom } from "jotai";
-import { ImageSrcAtom, IsUploadedImageAtom } from "./atoms";
+import { ImageNameAtom, ImageSrcAtom, IsUploadedImageAtom } from "./atoms";
 import { useResetState } from "./hooks";
 import { imageOptions } from "./consts";
 
 export function ExampleImages() {
   const [, setImageSrc] = useAtom(ImageSrcAtom);
   const [, setIsUploadedImage] = useAtom(IsUploadedImageAtom);
+  const [, setImageName] = useAtom(ImageNameAtom);
   const resetState = useResetState();
   return (
       <div className="flex flex-wrap items-start gap-3 shrink-0 w-[190px]">
@@ -30,6 +31,7 @@ export function ExampleImages() {
             onClick={() => {
             setIsUploadedImage(false);
               setImageSrc(`./${image}`);
+              setImageName(image);
               resetState();
             }}
           >
@@ -0,0 +1,91 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useState } from "react";
+import {
+  BoundingBoxes2DAtom,
+  BoundingBoxes3DAtom,
+  ImageNameAtom,
+  MediaDimensionsAtom,
+  PointsAtom,
+  SegmentationMasksAtom,
+  ShareStream,
+} from "./atoms";
+import { ExportFormat, ExportImage, exportImages } from "./exporters";
+import { downloadFile } from "./utils";
+
+const formatLabels: Record<ExportFormat, string> = {
+  coco: "COCO JSON",
+  voc: "Pascal VOC XML",
+  yolo: "YOLO txt",
+  csv: "CSV",
+  polygons: "Mask polygons JSON",
+};
+
+export function ExportMenu() {
+  const [boxes2D] = useAtom(BoundingBoxes2DAtom);
+  const [boxes3D] = useAtom(BoundingBoxes3DAtom);
+  const [points] = useAtom(PointsAtom);
+  const [masks] = useAtom(SegmentationMasksAtom);
+  const [imageName] = useAtom(ImageNameAtom);
+  const [{ width, height }] = useAtom(MediaDimensionsAtom);
+  const [stream] = useAtom(ShareStream);
+  const [open, setOpen] = useState(false);
+
+  const image: ExportImage = {
+    fileName: stream ? "frame.png" : imageName,
+    width,
+    height,
+    boxes2D,
+    points,
+    boxes3D,
+    masks,
+  };
+  const count =
+    boxes2D.length + boxes3D.length + points.length + masks.length;
+  const formats = (Object.keys(formatLabels) as ExportFormat[]).filter(
+    (format) => format !== "polygons" || masks.length > 0,
+  );
+
+  return (
+    <div className="relative">
+      <button
+        className="secondary disabled:opacity-50 disabled:cursor-not-allowed"
+        disabled={count === 0}
+        onClick={() => setOpen(!open)}
+      >
+        Export ▾
+      </button>
+      {open && count > 0 && (
+        <div className="absolute right-0 top-full mt-1 z-30 flex flex-col bg-[var(--bg-color)] border rounded-lg shadow-lg py-1 whitespace-nowrap">
+          {formats.map((format) => (
+            <button
+              key={format}
+              className="border-none rounded-none min-h-0 px-4 py-2 text-left bg-transparent hover:bg-[var(--border-color)]"
+              onClick={() => {
+                for (const file of exportImages(format, [image])) {
+                  downloadFile(file.name, file.content, file.type);
+                }
+                setOpen(false);
+              }}
+            >
+              {formatLabels[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
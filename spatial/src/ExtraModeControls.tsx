@@ -16,40 +16,79 @@ import { useAtom } from "jotai";
 import {
   BoundingBoxes2DAtom,
   BoundingBoxes3DAtom,
+  CompareConfigsAtom,
+  CompareModeAtom,
   ShareStream,
   DetectTypeAtom,
-  FOVAtom,
   PointsAtom,
   HoveredBoxAtom,
   DrawModeAtom,
+  EditModeAtom,
+  RoiModeAtom,
   LinesAtom,
+  SegmentationMasksAtom,
+  StrokeAnnotationsAtom,
+  ShowTrailsAtom,
+  TrackingAtom,
+  TracksAtom,
+  CommitAtom,
 } from "./atoms";
 import { Palette } from "./Palette";
+import { CameraControls } from "./CameraControls";
+import { RoiControls } from "./RoiControls";
+import { backendOptions, compareColors, modelOptions } from "./consts";
+import { BackendName } from "./Types";
+import { assign } from "./history";
+import { emptyTracker } from "./tracker";
 
 export function ExtraModeControls() {
   const [, setBoundingBoxes2D] = useAtom(BoundingBoxes2DAtom);
   const [, setBoundingBoxes3D] = useAtom(BoundingBoxes3DAtom);
   const [stream, setStream] = useAtom(ShareStream);
   const [detectType] = useAtom(DetectTypeAtom);
-  const [fov, setFoV] = useAtom(FOVAtom);
   const [, setPoints] = useAtom(PointsAtom);
+  const [, setSegmentationMasks] = useAtom(SegmentationMasksAtom);
   const [, _setHoveredBox] = useAtom(HoveredBoxAtom);
   const [drawMode, setDrawMode] = useAtom(DrawModeAtom);
-  const [, setLines] = useAtom(LinesAtom);
+  const [editMode, setEditMode] = useAtom(EditModeAtom);
+  const [roiMode] = useAtom(RoiModeAtom);
+  const [strokeAnnotations] = useAtom(StrokeAnnotationsAtom);
+  const [, commit] = useAtom(CommitAtom);
+  const [tracking, setTracking] = useAtom(TrackingAtom);
+  const [showTrails, setShowTrails] = useAtom(ShowTrailsAtom);
+  const [, setTracks] = useAtom(TracksAtom);
+  const [compareMode, setCompareMode] = useAtom(CompareModeAtom);
+  const [compareConfigs, setCompareConfigs] = useAtom(CompareConfigsAtom);
+
+  const updateCompareConfig = (
+    index: number,
+    update: Partial<(typeof compareConfigs)[number]>,
+  ) =>
+    setCompareConfigs((prev) =>
+      prev.map((config, i) => (i === index ? { ...config, ...update } : config)),
+    );
 
   const showExtraBar = stream || detectType === "3D bounding boxes";
 
   return (
     <>
-      {detectType === "Points" || detectType === "3D bounding boxes" ? (
+      {detectType !== "2D bounding boxes" ? (
         <div className="flex gap-3 px-3 py-3 items-center justify-center bg-[var(--accent-color)] text-[var(--bg-color)] text-center border-t">
-          <div className="text-lg">🚧</div> Points and 3d bounding boxes are preliminary model capabilities.
+          <div className="text-lg">🚧</div> Points, segmentation masks and 3d bounding boxes are preliminary model capabilities.
           Use 2D bounding boxes for higher accuracy.
         </div>
       ) : null}
       {drawMode ? (
         <div className="flex gap-3 px-3 py-3 items-center justify-between border-t">
-          <div style={{ width: 200 }}></div>
+          <div
+            className="text-sm text-[var(--text-color-secondary)]"
+            style={{ width: 200 }}
+            title="How the strokes are described to the model"
+          >
+            {strokeAnnotations
+              .map(({ colorName, kind }) => `${colorName} ${kind}`)
+              .join(", ")}
+          </div>
           <div className="grow flex justify-center">
             <Palette />
           </div>
@@ -58,7 +97,10 @@ export function ExtraModeControls() {
               <button
                 className="flex gap-3 text-sm secondary"
                 onClick={() => {
-                  setLines([]);
+                  commit({
+                    label: "Clear drawing",
+                    updates: [assign(LinesAtom, [])],
+                  });
                 }}
               >
                 <div className="text-xs">🗑️</div>
@@ -79,6 +121,107 @@ export function ExtraModeControls() {
           </div>
         </div>
       ) : null}
+      {compareMode ? (
+        <div className="flex flex-wrap gap-3 px-3 py-3 items-center border-t text-sm">
+          {compareConfigs.map((config, i) => (
+            <div key={i} className="flex gap-2 items-center">
+              <span
+                className="inline-block w-3 h-3 rounded-sm"
+                style={{ backgroundColor: compareColors[i % compareColors.length] }}
+              />
+              <select
+                className="border bg-transparent py-1 px-1 rounded-md"
+                value={config.backend}
+                onChange={(e) =>
+                  updateCompareConfig(i, { backend: e.target.value as BackendName })
+                }
+              >
+                {backendOptions.map((backend) => (
+                  <option key={backend} value={backend}>
+                    {backend}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="border bg-transparent py-1 px-1 rounded-md"
+                value={config.model}
+                onChange={(e) => updateCompareConfig(i, { model: e.target.value })}
+              >
+                {modelOptions.map((model) => (
+                  <option key={model} value={model}>
+                    {model.replace("models/", "")}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                max="2"
+                step="0.05"
+                title="temperature"
+                value={config.temperature}
+                onChange={(e) =>
+                  updateCompareConfig(i, { temperature: Number(e.target.value) })
+                }
+                className="w-16 px-2 py-1 bg-[var(--input-color)] rounded"
+              />
+              {compareConfigs.length > 2 && (
+                <button
+                  className="p-0 border-none bg-transparent"
+                  style={{ minHeight: 0 }}
+                  title="Remove"
+                  onClick={() =>
+                    setCompareConfigs((prev) => prev.filter((_, j) => j !== i))
+                  }
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          {compareConfigs.length < compareColors.length && (
+            <button
+              className="secondary"
+              onClick={() =>
+                setCompareConfigs((prev) => [...prev, prev[prev.length - 1]])
+              }
+            >
+              + Add
+            </button>
+          )}
+          <div className="grow" />
+          <button
+            className="flex gap-3 secondary"
+            onClick={() => {
+              setCompareMode(false);
+            }}
+          >
+            <div className="text-sm">✅</div>
+            <div>Done</div>
+          </button>
+        </div>
+      ) : null}
+      {editMode ? (
+        <div className="flex gap-3 px-3 py-3 items-center justify-between border-t">
+          <div className="grow text-sm text-center">
+            {detectType === "2D bounding boxes"
+              ? "Drag on the image to add a box. Drag a box or its handles to move or resize it. Double-click to rename, Delete to remove."
+              : detectType === "Points"
+                ? "Click on the image to add a point. Drag a point to move it. Double-click to rename, Delete to remove."
+                : "Editing is available for 2D bounding boxes and points."}
+          </div>
+          <button
+            className="flex gap-3 secondary"
+            onClick={() => {
+              setEditMode(false);
+            }}
+          >
+            <div className="text-sm">✅</div>
+            <div>Done</div>
+          </button>
+        </div>
+      ) : null}
+      {roiMode ? <RoiControls /> : null}
       {showExtraBar ? (
         <div className="flex gap-3 px-3 py-3 border-t items-center justify-center">
           {stream ? (
@@ -90,26 +233,39 @@ export function ExtraModeControls() {
                 setBoundingBoxes2D([]);
                 setBoundingBoxes3D([]);
                 setPoints([]);
+                setSegmentationMasks([]);
+                setTracks(emptyTracker);
               }}
             >
               <div className="text-xs">🔴</div>
               <div className="whitespace-nowrap">Stop {stream.getVideoTracks()[0].kind === 'video' ? 'webcam' : 'screenshare'}</div>
             </button>
           ) : null}
-          {detectType === "3D bounding boxes" ? (
+          {stream && detectType === "2D bounding boxes" ? (
             <>
-              <div>FOV</div>
-              <input
-                className="w-full"
-                type="range"
-                min="30"
-                max="120"
-                value={fov}
-                onChange={(e) => setFoV(+e.target.value)}
-              />
-              <div>{fov}</div>
+              <label className="flex items-center gap-2 select-none whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={tracking}
+                  onChange={(e) => {
+                    setTracking(e.target.checked);
+                    setTracks(emptyTracker);
+                  }}
+                />
+                <div>track objects</div>
+              </label>
+              <label className="flex items-center gap-2 select-none whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  disabled={!tracking}
+                  checked={showTrails}
+                  onChange={(e) => setShowTrails(e.target.checked)}
+                />
+                <div>trails</div>
+              </label>
             </>
           ) : null}
+          {detectType === "3D bounding boxes" ? <CameraControls /> : null}
         </div>
       ) : null}
     </>
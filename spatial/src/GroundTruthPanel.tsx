@@ -0,0 +1,110 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useState } from "react";
+import {
+  EvaluationAtom,
+  GroundTruthAtom,
+  ImageNameAtom,
+  ShowGroundTruthAtom,
+} from "./atoms";
+import { parseGroundTruth } from "./groundTruth";
+import { getErrorMessage } from "./utils";
+
+export function GroundTruthPanel() {
+  const [groundTruth, setGroundTruth] = useAtom(GroundTruthAtom);
+  const [showGroundTruth, setShowGroundTruth] = useAtom(ShowGroundTruthAtom);
+  const [evaluation] = useAtom(EvaluationAtom);
+  const [imageName] = useAtom(ImageNameAtom);
+  const [error, setError] = useState<string | null>(null);
+
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="flex flex-col gap-2 w-full text-sm">
+      <label className="button flex gap-3 justify-center items-center">
+        <input
+          className="hidden"
+          type="file"
+          accept=".json,.txt,.names"
+          multiple
+          onChange={async (e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = "";
+            if (!files.length) return;
+            try {
+              const annotations = await Promise.all(
+                files.map(async (file) => ({
+                  name: file.name,
+                  text: await file.text(),
+                })),
+              );
+              setGroundTruth(parseGroundTruth(annotations, imageName));
+              setError(null);
+            } catch (err) {
+              setError(getErrorMessage(err));
+            }
+          }}
+        />
+        <div className="text-lg">🎯</div>
+        <div>Load ground truth</div>
+      </label>
+      {error && <div className="text-red-500">{error}</div>}
+      {groundTruth.length > 0 && (
+        <>
+          <div className="flex justify-between items-center">
+            <label className="flex gap-2 select-none">
+              <input
+                type="checkbox"
+                checked={showGroundTruth}
+                onChange={() => setShowGroundTruth(!showGroundTruth)}
+              />
+              <div>show ({groundTruth.length})</div>
+            </label>
+            <button
+              className="p-0 border-none underline bg-transparent"
+              style={{ minHeight: 0 }}
+              onClick={() => setGroundTruth([])}
+            >
+              clear
+            </button>
+          </div>
+          {evaluation && (
+            <table>
+              <tbody>
+                {[
+                  ["Precision", percent(evaluation.precision)],
+                  ["Recall", percent(evaluation.recall)],
+                  ["Mean IoU", evaluation.meanIoU.toFixed(3)],
+                  ["Label agreement", percent(evaluation.labelAgreement)],
+                  ["Matched", evaluation.truePositives],
+                  ["False positives", evaluation.falsePositives.length],
+                  ["Misses", evaluation.misses.length],
+                ].map(([name, value]) => (
+                  <tr key={name}>
+                    <td className="text-[var(--text-color-secondary)] pr-2">
+                      {name}
+                    </td>
+                    <td className="text-right">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useEffect, useState } from "react";
+import { RunHistoryRevisionAtom, ShowHistoryAtom } from "./atoms";
+import { useRestoreRun } from "./hooks";
+import { RunRecord, clearRuns, deleteRun, listRuns } from "./runHistory";
+import { getErrorMessage } from "./utils";
+import { countResults } from "./detection";
+
+export function HistorySidebar() {
+  const [revision, setRevision] = useAtom(RunHistoryRevisionAtom);
+  const [, setShowHistory] = useAtom(ShowHistoryAtom);
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [activeRun, setActiveRun] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const restoreRun = useRestoreRun();
+
+  useEffect(() => {
+    listRuns()
+      .then((runs) => {
+        setRuns(runs);
+        setError(null);
+      })
+      .catch((err) => setError(getErrorMessage(err)));
+  }, [revision]);
+
+  const update = (action: Promise<void>) =>
+    action
+      .then(() => setRevision((prev) => prev + 1))
+      .catch((err) => setError(getErrorMessage(err)));
+
+  return (
+    <div className="flex flex-col shrink-0 w-[260px] border-l text-sm overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <div className="font-medium">Run history ({runs.length})</div>
+        <div className="flex gap-3">
+          {runs.length > 0 && (
+            <button
+              className="p-0 border-none underline bg-transparent"
+              style={{ minHeight: 0 }}
+              onClick={() => update(clearRuns())}
+            >
+              clear
+            </button>
+          )}
+          <button
+            className="p-0 border-none bg-transparent"
+            style={{ minHeight: 0 }}
+            title="Close"
+            onClick={() => setShowHistory(false)}
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+      {error && <div className="px-3 py-2 text-red-500">{error}</div>}
+      {runs.length === 0 && !error && (
+        <div className="px-3 py-2 text-[var(--text-color-secondary)]">
+          Runs appear here after each Send.
+        </div>
+      )}
+      <div className="flex flex-col overflow-y-auto">
+        {runs.map((run) => (
+          <div
+            key={run.id}
+            className={`flex gap-2 px-3 py-2 border-b cursor-pointer hover:bg-[var(--border-color)] ${
+              run.id === activeRun ? "bg-[var(--border-color)]" : ""
+            }`}
+            title={run.prompt}
+            onClick={() => {
+              setActiveRun(run.id);
+              restoreRun(run);
+            }}
+          >
+            <img
+              src={run.image}
+              alt={run.imageName}
+              className="w-[56px] h-[56px] object-cover shrink-0"
+            />
+            <div className="flex flex-col grow min-w-0">
+              <div className="truncate">{run.detectType}</div>
+              <div className="truncate text-xs text-[var(--text-color-secondary)]">
+                {run.model.replace("models/", "")} · t={run.temperature}
+              </div>
+              <div className="text-xs text-[var(--text-color-secondary)]">
+                {countResults(run.results)} results · {run.latencyMs} ms
+              </div>
+              <div className="text-xs text-[var(--text-color-secondary)]">
+                {new Date(run.createdAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              className="self-start p-0 border-none bg-transparent text-xs"
+              style={{ minHeight: 0 }}
+              title="Delete run"
+              onClick={(e) => {
+                e.stopPropagation();
+                update(deleteRun(run.id));
+              }}
+            >
+              🗑️
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
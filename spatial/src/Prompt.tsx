@@ -14,7 +14,6 @@
 
 import { useAtom } from "jotai";
 import getStroke from "perfect-freehand";
-import {GoogleGenerativeAI} from "@google/generative-ai";
 import {
   BoundingBoxes2DAtom,
   BoundingBoxes3DAtom,
@@ -29,12 +28,72 @@ import {
   VideoRefAtom,
   TemperatureAtom,
   CustomPromptsAtom,
+  RejectedEntriesAtom,
+  DetectionRequestAtom,
+  SceneContextRequestAtom,
+  SegmentationMasksAtom,
+  TargetPromptAtom,
+  LabelPromptAtom,
+  ImageNameAtom,
+  BackendAtom,
+  RunHistoryRevisionAtom,
+  TrackingAtom,
+  CommitAtom,
+  TrackDetectionsAtom,
+  CompareModeAtom,
+  CompareConfigsAtom,
+  ComparisonAtom,
+  ItemLimitsAtom,
+  TilingAtom,
+  MediaDimensionsAtom,
+  CaptureSettingsAtom,
+  RoisAtom,
+  StrokeAnnotationsAtom,
 } from "./atoms";
 import { lineOptions } from "./consts.js";
-import { getSvgPathFromStroke, loadImage } from "./utils";
+import {
+  getErrorMessage,
+  getSvgPathFromStroke,
+  isRequestInFlight,
+  loadImage,
+} from "./utils";
 import {  useState, useEffect, useRef } from "react";
+import { useBackend } from "./hooks";
+import { parseModelResponse } from "./parseResponse";
+import { StatusPanel } from "./StatusPanel";
+import { PromptLibrary } from "./PromptLibrary";
+import { RejectedEntry, responseSchemas } from "./schemas";
+import { Update, assign } from "./history";
+import { RunResults, saveRun } from "./runHistory";
+import { clampItemLimit } from "./promptPresets";
+import { drawRegion, drawScaled, encodeCanvas } from "./capture";
+import { CaptureSettingsPanel } from "./CaptureSettingsPanel";
+import { canTile, runTiledDetection } from "./tiling";
+import { cropRegions } from "./roi";
+import { StrokeAnnotation, classifyStrokes, cropStrokes } from "./strokes";
+import {
+  getDetectionPrompt,
+  parseDetections,
+  runDetection,
+} from "./detection";
+import { backends } from "./backends";
+import { CompareRun } from "./comparison";
+import {
+  ClaimResult,
+  SchedulerStats,
+  createFrameScheduler,
+} from "./frameScheduler";
 
-const client = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
+type CapturedFrame = {
+  // What gets sent to the model, with the strokes burned in.
+  dataURL: string;
+  // The same frame without strokes, kept for the run history. Live frames
+  // aren't kept, so they skip it.
+  snapshot: string | null;
+  // The frame at full resolution with the strokes, when detection sends crops
+  // of it instead of dataURL.
+  canvas: HTMLCanvasElement | null;
+};
 
 export function Prompt({ 
   onSceneContextChange 
@@ -42,27 +101,52 @@ export function Prompt({
   onSceneContextChange: (context: { scene: string; task: string; } | null) => void 
 }) {
   const [temperature, setTemperature] = useAtom(TemperatureAtom);
-  const [, setBoundingBoxes2D] = useAtom(BoundingBoxes2DAtom);
-  const [, setBoundingBoxes3D] = useAtom(BoundingBoxes3DAtom);
+  const [, commit] = useAtom(CommitAtom);
   const [stream] = useAtom(ShareStream);
   const [detectType] = useAtom(DetectTypeAtom);
   const [modelSelected] = useAtom(ModelSelectedAtom);
-  const [, setPoints] = useAtom(PointsAtom);
+  const [rejectedEntries, setRejectedEntries] = useAtom(RejectedEntriesAtom);
+  const [detectionRequest, setDetectionRequest] = useAtom(DetectionRequestAtom);
+  const [sceneContextRequest, setSceneContextRequest] = useAtom(SceneContextRequestAtom);
+  const lastFrameRef = useRef<CapturedFrame | null>(null);
   const [, setHoverEntered] = useAtom(HoverEnteredAtom);
   const [lines] = useAtom(LinesAtom);
+  const [strokeAnnotations] = useAtom(StrokeAnnotationsAtom);
   const [videoRef] = useAtom(VideoRefAtom);
   const [imageSrc] = useAtom(ImageSrcAtom);
+  const [imageName] = useAtom(ImageNameAtom);
+  const [backendName] = useAtom(BackendAtom);
+  const [, setRunHistoryRevision] = useAtom(RunHistoryRevisionAtom);
+  const [tracking] = useAtom(TrackingAtom);
+  const [, trackDetections] = useAtom(TrackDetectionsAtom);
+  const [compareMode] = useAtom(CompareModeAtom);
+  const [compareConfigs] = useAtom(CompareConfigsAtom);
+  const [comparison, setComparison] = useAtom(ComparisonAtom);
   const [showCustomPrompt] = useState(false);
-  const [targetPrompt, setTargetPrompt] = useState("SKU items");
-  const [labelPrompt, setLabelPrompt] = useState("a text label of their name indicating exactly what the item is (the product name).");
+  const [targetPrompt, setTargetPrompt] = useAtom(TargetPromptAtom);
+  const [labelPrompt, setLabelPrompt] = useAtom(LabelPromptAtom);
+  const [itemLimits, setItemLimits] = useAtom(ItemLimitsAtom);
+  const [tiling, setTiling] = useAtom(TilingAtom);
+  const [captureSettings] = useAtom(CaptureSettingsAtom);
+  const [rois] = useAtom(RoisAtom);
+  const [mediaDimensions] = useAtom(MediaDimensionsAtom);
   const [showRawPrompt, setShowRawPrompt] = useState(false);
 
+  const backend = useBackend();
+
   const [prompts, setPrompts] = useAtom(PromptsAtom);
   const [customPrompts, setCustomPrompts] = useAtom(CustomPromptsAtom);
 
   const [analyzeInterval, setAnalyzeInterval] = useState(1);
+  const [maxInFlight, setMaxInFlight] = useState(2);
+  // What is typed in the scheduling fields, clamped only once it is committed.
+  const [intervalDraft, setIntervalDraft] = useState<string | null>(null);
+  const [maxInFlightDraft, setMaxInFlightDraft] = useState<string | null>(null);
+  // What is typed in the tile size field, clamped only once it is committed.
+  const [tileSizeDraft, setTileSizeDraft] = useState<string | null>(null);
+  const [itemLimitDraft, setItemLimitDraft] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const analyzeIntervalRef = useRef<number | null>(null);
+  const [schedulerStats, setSchedulerStats] = useState<SchedulerStats | null>(null);
   const isWebcam = stream?.getVideoTracks()[0]?.kind === 'video';
 
   const [sceneContext, setSceneContext] = useState<{scene: string, task: string} | null>(null);
@@ -72,234 +156,360 @@ export function Prompt({
     onSceneContextChange(sceneContext);
   }, [sceneContext, onSceneContextChange]);
 
+  // The scheduler outlives renders, so it always calls the latest analyzeFrame
+  // to pick up prompt and model changes made while it runs.
+  const analyzeFrameRef = useRef(analyzeFrame);
+  analyzeFrameRef.current = analyzeFrame;
+
   useEffect(() => {
-    return () => {
-      if (analyzeIntervalRef.current) {
-        clearInterval(analyzeIntervalRef.current);
-      }
-    };
-  }, []);
+    if (!stream) {
+      setIsAnalyzing(false);
+    }
+  }, [stream]);
 
   useEffect(() => {
-    if (!isAnalyzing && analyzeIntervalRef.current) {
-      clearInterval(analyzeIntervalRef.current);
-      analyzeIntervalRef.current = null;
+    if (!isAnalyzing) {
+      setSchedulerStats(null);
+      return;
     }
-  }, [isAnalyzing]);
+    const scheduler = createFrameScheduler({
+      task: (claim) => analyzeFrameRef.current(claim),
+      minIntervalMs: analyzeInterval * 1000,
+      maxInFlight,
+      onStats: setSchedulerStats,
+    });
+    return () => scheduler.stop();
+  }, [isAnalyzing, analyzeInterval, maxInFlight]);
 
   const is2d = detectType === "2D bounding boxes";
+  // Regions of interest and tiling both send crops instead of the frame.
+  const sendsCrops =
+    canTile(detectType) &&
+    (rois.some(({ active }) => active) || (tiling.enabled && !stream));
+  const isBusy =
+    isRequestInFlight(detectionRequest) ||
+    isRequestInFlight(sceneContextRequest) ||
+    !!comparison?.runs.some(({ status }) => status === "waiting");
 
-  const get2dPrompt = () =>
-    `Detect ${
-      targetPrompt
-    }, with no more than 20 items. Output a json list where each entry contains the 2D bounding box in "box_2d" and ${
-      labelPrompt || 'a text label'
-    } in "label".`
 
-  async function analyzeSceneContext(activeDataURL: string) {
+  async function analyzeSceneContext(activeDataURL: string, claim?: ClaimResult) {
+    let text: string | undefined;
     try {
-      const result = await client
-        .getGenerativeModel(
-          {model: modelSelected},
-          {apiVersion: 'v1beta'}
-        )
-        .generateContent({
-          contents: [{
-            role: "user",
-            parts: [
-              {text: "Based on this image, infer the scene context and potential task. Output in JSON format with exactly this structure: {\"scene\": \"description of the scene\", \"task\": \"reasoning about potential task\"}. Be concise."},
-              {inlineData: {
-                data: activeDataURL.replace("data:image/png;base64,", ""),
-                mimeType: "image/png"
-              }}
-            ]
-          }]
-        });
-      
-      const text = await result.response.text();
+      setSceneContextRequest({ status: "waiting" });
+      text = await backend.sceneContext({
+        model: modelSelected,
+        prompt: "Based on this image, infer the scene context and potential task. Output in JSON format with exactly this structure: {\"scene\": \"description of the scene\", \"task\": \"reasoning about potential task\"}. Be concise.",
+        image: activeDataURL,
+      });
       console.log('Scene context response:', text);
-      
-      try {
-        const jsonText = text.includes('```') ? 
-          text.split('```json')[1]?.split('```')[0] || text :
-          text;
-        const contextData = JSON.parse(jsonText);
-        setSceneContext(contextData);
-      } catch (e) {
-        console.error('Error parsing scene context JSON:', e);
+      setSceneContextRequest({ status: "parsing", rawText: text });
+
+      const contextData = parseModelResponse(text).value as {
+        scene: string;
+        task: string;
+      };
+      if (
+        typeof contextData?.scene !== "string" ||
+        typeof contextData?.task !== "string"
+      ) {
+        throw new Error('Expected an object with "scene" and "task" strings');
       }
+      if (claim && !claim("sceneContext")) {
+        setSceneContextRequest({ status: "done" });
+        return;
+      }
+      setSceneContext(contextData);
+      setSceneContextRequest({ status: "done", rawText: text });
     } catch (error) {
       console.error('Error analyzing scene context:', error);
+      setSceneContextRequest({
+        status: "failed",
+        error: getErrorMessage(error),
+        rawText: text,
+      });
     }
   }
 
-  async function analyzeDetection(activeDataURL: string) {
+  async function analyzeDetection(frame: CapturedFrame, claim?: ClaimResult) {
+    let response: string | undefined;
     try {
-      const prompt = prompts[detectType];
-      setHoverEntered(false);
+      const promptParts = is2d ? [targetPrompt, labelPrompt] : prompts[detectType];
+      const promptFor = (strokes: StrokeAnnotation[]) =>
+        getDetectionPrompt(detectType, promptParts, itemLimits[detectType], strokes);
+      const promptText = promptFor(strokeAnnotations);
 
-      let response = (await client
-        .getGenerativeModel(
-          {model: modelSelected},
-          {apiVersion: 'v1beta'}
-        )
-        .generateContent({
-          contents: [
-            {
-              role: "user",
-              parts: [
-                {text: is2d ? get2dPrompt() : prompt.join(" ")},
-                {inlineData: {
-                  data: activeDataURL.replace("data:image/png;base64,", ""),
-                  mimeType: "image/png"
-                }}
-              ]
-            }
-          ],
-          generationConfig: {temperature}
-        })).response.text();
-
-      if (response.includes("```json")) {
-        response = response.split("```json")[1].split("```")[0];
+      let results: RunResults;
+      let rejected: RejectedEntry[];
+      let latencyMs: number;
+      if (sendsCrops) {
+        // Each crop only hears about the strokes it shows.
+        const canvas = frame.canvas ?? (await captureFrame(true)).canvas!;
+        const { tiles, size } = await cropFrame(canvas, promptFor);
+        setDetectionRequest({ status: "waiting" });
+        const output = await runTiledDetection(
+          backend,
+          { model: modelSelected, detectType, temperature, prompt: promptText },
+          tiles,
+          size,
+        );
+        ({ results, rejected, latencyMs } = output);
+        response = output.rawText;
+      } else {
+        setDetectionRequest({ status: "waiting" });
+        const startedAt = performance.now();
+        response = await backend.detect({
+          model: modelSelected,
+          prompt: promptText,
+          image: frame.dataURL,
+          detectType,
+          temperature,
+          responseSchema: responseSchemas[detectType],
+        });
+        latencyMs = Math.round(performance.now() - startedAt);
+        setDetectionRequest({ status: "parsing", rawText: response });
+
+        ({ results, rejected } = await parseDetections(detectType, response));
       }
-      const parsedResponse = JSON.parse(response);
-      console.log('Parsed response:', parsedResponse);
-      
-      window.dispatchEvent(new CustomEvent('parsedResponse', { detail: parsedResponse }));
+      console.log('Parsed results:', results);
 
+      // A newer live frame already landed; don't overwrite it with this one.
+      if (claim && !claim("detection")) {
+        setDetectionRequest({ status: "done" });
+        return;
+      }
+      setHoverEntered(false);
+      let update: Update;
       if (detectType === "2D bounding boxes") {
-        const formattedBoxes = parsedResponse.map(
-          (box: { box_2d: [number, number, number, number]; label: string }) => {
-            const [ymin, xmin, ymax, xmax] = box.box_2d;
-            return {
-              x: xmin / 1000,
-              y: ymin / 1000,
-              width: (xmax - xmin) / 1000,
-              height: (ymax - ymin) / 1000,
-              label: box.label,
-            };
-          },
+        update = assign(
+          BoundingBoxes2DAtom,
+          stream && tracking ? trackDetections(results.boxes2D) : results.boxes2D,
         );
-        setHoverEntered(false);
-        setBoundingBoxes2D(formattedBoxes);
+      } else if (detectType === "Segmentation masks") {
+        update = assign(SegmentationMasksAtom, results.masks);
       } else if (detectType === "Points") {
-        const formattedPoints = parsedResponse.map(
-          (point: { point: [number, number]; label: string }) => {
-            return {
-              point: {
-                x: point.point[1] / 1000,
-                y: point.point[0] / 1000,
-              },
-              label: point.label,
-            };
-          },
-        );
-        setPoints(formattedPoints);
+        update = assign(PointsAtom, results.points);
       } else {
-        const formattedBoxes = parsedResponse.map(
-          (box: {
-            box_3d: [
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-            ];
-            label: string;
-          }) => {
-            const center = box.box_3d.slice(0, 3);
-            const size = box.box_3d.slice(3, 6);
-            const rpy = box.box_3d
-              .slice(6)
-              .map((x: number) => (x * Math.PI) / 180);
-            return {
-              center,
-              size,
-              rpy,
-              label: box.label,
-            };
-          },
-        );
-        setBoundingBoxes3D(formattedBoxes);
+        update = assign(BoundingBoxes3DAtom, results.boxes3D);
+      }
+      commit({
+        label: `Detect ${detectType}`,
+        updates: [update],
+        // Live frames replace each other too quickly to be worth undoing.
+        skipHistory: stream !== null,
+      });
+      if (rejected.length > 0) {
+        console.warn('Rejected entries:', rejected);
+      }
+      setRejectedEntries(rejected);
+      setDetectionRequest({ status: "done", rawText: response });
+
+      // Live frames arrive too often to be worth keeping.
+      if (!stream && frame.snapshot) {
+        saveRun({
+          imageName,
+          image: frame.snapshot,
+          lines,
+          detectType,
+          prompt: promptText,
+          promptParts,
+          backend: backendName,
+          model: modelSelected,
+          temperature,
+          rawResponse: response,
+          results,
+          latencyMs,
+        })
+          .then(() => setRunHistoryRevision((prev) => prev + 1))
+          .catch((error) => console.error('Error saving run:', error));
       }
     } catch (error) {
       console.error('Error in detection analysis:', error);
+      setDetectionRequest({
+        status: "failed",
+        error: getErrorMessage(error),
+        rawText: response,
+      });
     }
   }
 
-  async function analyzeFrame() {
-    let activeDataURL;
-    const maxSize = 640;
-    const copyCanvas = document.createElement("canvas");
-    const ctx = copyCanvas.getContext("2d")!;
+  async function analyzeFrame(claim?: ClaimResult) {
+    setDetectionRequest({ status: "capturing" });
+    setSceneContextRequest({ status: "capturing" });
+    let frame;
+    try {
+      frame = await captureFrame(sendsCrops);
+    } catch (error) {
+      console.error('Error capturing frame:', error);
+      const failed = { status: "failed", error: getErrorMessage(error) } as const;
+      setDetectionRequest(failed);
+      setSceneContextRequest(failed);
+      return;
+    }
+    lastFrameRef.current = frame;
+
+    // Run both LLM calls in parallel
+    await Promise.all([
+      analyzeDetection(frame, claim),
+      analyzeSceneContext(frame.dataURL, claim)
+    ]);
+  }
 
+  // Captures the current frame scaled to the capture size. With
+  // `fullResolution` it also keeps the unscaled frame for cutting crops from,
+  // so crops and the scaled frame come from the same video frame.
+  async function captureFrame(fullResolution = false): Promise<CapturedFrame> {
+    let source: HTMLImageElement | HTMLVideoElement;
+    let sourceSize: number;
     if (stream) {
-      const video = videoRef.current!;
-      const scale = Math.min(
-        maxSize / video.videoWidth,
-        maxSize / video.videoHeight,
-      );
-      copyCanvas.width = video.videoWidth * scale;
-      copyCanvas.height = video.videoHeight * scale;
-      ctx.drawImage(
-        video,
-        0,
-        0,
-        video.videoWidth * scale,
-        video.videoHeight * scale,
-      );
+      source = videoRef.current!;
+      sourceSize = Math.max(source.videoWidth, source.videoHeight);
     } else if (imageSrc) {
-      const image = await loadImage(imageSrc);
-      const scale = Math.min(maxSize / image.width, maxSize / image.height);
-      copyCanvas.width = image.width * scale;
-      copyCanvas.height = image.height * scale;
-      ctx.drawImage(image, 0, 0, image.width * scale, image.height * scale);
+      source = await loadImage(imageSrc);
+      sourceSize = Math.max(source.width, source.height);
+    } else {
+      throw new Error("No image or video to capture");
     }
+    const canvas = fullResolution
+      ? drawScaled(source, sourceSize)
+      : drawScaled(source, captureSettings.maxSize);
+    const scaled = () =>
+      fullResolution
+        ? drawRegion(
+            canvas,
+            { x: 0, y: 0, width: canvas.width, height: canvas.height },
+            captureSettings.maxSize,
+          )
+        : canvas;
+    console.log('Canvas size:', { width: canvas.width, height: canvas.height });
 
-    console.log('Canvas size:', { width: copyCanvas.width, height: copyCanvas.height });
-    
-    activeDataURL = copyCanvas.toDataURL("image/png");
-
+    // Encoding takes a copy of the pixels, so strokes drawn afterwards stay
+    // out of the snapshot.
+    const snapshot = stream
+      ? Promise.resolve(null)
+      : encodeCanvas(scaled(), { format: "image/jpeg", quality: 0.85 });
     if (lines.length > 0) {
-      for (const line of lines) {
-        const p = new Path2D(
-          getSvgPathFromStroke(
-            getStroke(
-              line[0].map(([x, y]) => [
-                x * copyCanvas.width,
-                y * copyCanvas.height,
-                0.5,
-              ]),
-              lineOptions,
-            ),
+      drawStrokes(canvas);
+    }
+    const [dataURL, snapshotURL] = await Promise.all([
+      encodeCanvas(scaled(), captureSettings),
+      snapshot,
+    ]);
+
+    return {
+      dataURL,
+      snapshot: snapshotURL,
+      canvas: fullResolution ? canvas : null,
+    };
+  }
+
+  function drawStrokes(canvas: HTMLCanvasElement) {
+    const ctx = canvas.getContext("2d")!;
+    for (const line of lines) {
+      const p = new Path2D(
+        getSvgPathFromStroke(
+          getStroke(
+            line[0].map(([x, y]) => [
+              x * canvas.width,
+              y * canvas.height,
+              0.5,
+            ]),
+            lineOptions,
           ),
-        );
-        ctx.fillStyle = line[1];
-        ctx.fill(p);
-      }
-      activeDataURL = copyCanvas.toDataURL("image/png");
+        ),
+      );
+      ctx.fillStyle = line[1];
+      ctx.fill(p);
     }
+  }
 
-    // Run both LLM calls in parallel
-    await Promise.all([
-      analyzeDetection(activeDataURL),
-      analyzeSceneContext(activeDataURL)
-    ]);
+  // Cuts the full resolution frame, strokes included, into the active regions
+  // of interest, split into overlapping tiles when tiling a still image.
+  async function cropFrame(
+    canvas: HTMLCanvasElement,
+    promptFor: (strokes: StrokeAnnotation[]) => string,
+  ) {
+    const size = { width: canvas.width, height: canvas.height };
+    const annotations = classifyStrokes(lines, size);
+    // Crops no circle reaches can't hold anything the circles ask for.
+    const circles = annotations.filter(({ kind }) => kind === "circle");
+    const regions = cropRegions(
+      size,
+      rois,
+      tiling.enabled && !stream ? tiling : null,
+    ).filter(
+      ({ region }) =>
+        circles.length === 0 || cropStrokes(circles, size, region).length > 0,
+    );
+    const tiles = await Promise.all(
+      regions.map(async ({ region, name }) => ({
+        region,
+        name,
+        prompt: promptFor(cropStrokes(annotations, size, region)),
+        image: await encodeCanvas(
+          drawRegion(canvas, region, captureSettings.maxSize),
+          captureSettings,
+        ),
+      })),
+    );
+    return { tiles, size };
+  }
+
+  // Sends one frame and prompt to every configured model at once.
+  async function runComparison() {
+    let frame;
+    try {
+      frame = await captureFrame();
+    } catch (error) {
+      console.error('Error capturing frame:', error);
+      setDetectionRequest({ status: "failed", error: getErrorMessage(error) });
+      return;
+    }
+    const prompt = getDetectionPrompt(
+      detectType,
+      is2d ? [targetPrompt, labelPrompt] : prompts[detectType],
+      itemLimits[detectType],
+      strokeAnnotations,
+    );
+    const updateRun = (index: number, update: Partial<CompareRun>) =>
+      setComparison((prev) =>
+        prev && {
+          ...prev,
+          runs: prev.runs.map((run, i) =>
+            i === index ? { ...run, ...update } : run,
+          ),
+        },
+      );
+
+    setComparison({
+      image: frame.dataURL,
+      detectType,
+      runs: compareConfigs.map((config) => ({ config, status: "waiting" })),
+    });
+    await Promise.all(
+      compareConfigs.map(async (config, i) => {
+        try {
+          const output = await runDetection(
+            backends[config.backend],
+            { model: config.model, temperature: config.temperature, detectType, prompt },
+            frame.dataURL,
+          );
+          updateRun(i, { status: "done", output });
+        } catch (error) {
+          console.error('Error in comparison run:', error);
+          updateRun(i, { status: "failed", error: getErrorMessage(error) });
+        }
+      }),
+    );
   }
 
   async function handleSend() {
+    if (!isWebcam && isBusy) {
+      return;
+    }
     if (isWebcam) {
-      if (isAnalyzing) {
-        setIsAnalyzing(false);
-        return;
-      }
-      setIsAnalyzing(true);
-      analyzeIntervalRef.current = window.setInterval(analyzeFrame, analyzeInterval * 1000) as unknown as number;
-      await analyzeFrame();
+      setIsAnalyzing(!isAnalyzing);
+    } else if (compareMode) {
+      await runComparison();
     } else {
       await analyzeFrame();
     }
@@ -307,6 +517,14 @@ export function Prompt({
 
   return (
     <div className="flex grow flex-col gap-3">
+      <StatusPanel
+        onRetryDetection={() => {
+          if (lastFrameRef.current) analyzeDetection(lastFrameRef.current);
+        }}
+        onRetrySceneContext={() => {
+          if (lastFrameRef.current) analyzeSceneContext(lastFrameRef.current.dataURL);
+        }}
+      />
       {sceneContext && (
         <div className="bg-gray-50 rounded-lg p-3 text-sm">
           <div className="font-medium mb-1">Scene Context:</div>
@@ -315,6 +533,22 @@ export function Prompt({
           <div className="text-gray-600">{sceneContext.task}</div>
         </div>
       )}
+      {rejectedEntries.length > 0 && (
+        <details className="bg-gray-50 rounded-lg p-3 text-sm">
+          <summary className="cursor-pointer">
+            Skipped {rejectedEntries.length} malformed{" "}
+            {rejectedEntries.length === 1 ? "entry" : "entries"}
+          </summary>
+          <ul className="mt-2 flex flex-col gap-1 text-gray-600">
+            {rejectedEntries.map(({ index, entry, reason }) => (
+              <li key={index}>
+                #{index}: {reason}{" "}
+                <code className="text-xs">{JSON.stringify(entry)}</code>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
       <div className="flex justify-between items-center">
         <div className="uppercase">Prompt:</div>
         <label className="flex gap-2 select-none">
@@ -326,6 +560,7 @@ export function Prompt({
           <div>show raw prompt</div>
         </label>
       </div>
+      <PromptLibrary />
       <div className="w-full flex flex-col">
         {showCustomPrompt ? (
           <textarea
@@ -346,7 +581,12 @@ export function Prompt({
           />
         ) : showRawPrompt ? (
           <div className="mb-2 text-[var(--text-color-secondary)]">
-            {is2d ? get2dPrompt() : prompts[detectType].join(" ")}
+            {getDetectionPrompt(
+              detectType,
+              is2d ? [targetPrompt, labelPrompt] : prompts[detectType],
+              itemLimits[detectType],
+              strokeAnnotations,
+            )}
           </div>
         ) :(
           <div className="flex flex-col gap-2">
@@ -360,10 +600,9 @@ export function Prompt({
                 if (is2d) {
                   setTargetPrompt(e.target.value);
                 } else {
-                  const value = e.target.value;
-                  const newPrompts = { ...prompts };
-                  newPrompts[detectType][1] = value;
-                  setPrompts(newPrompts);
+                  const parts = [...prompts[detectType]];
+                  parts[1] = e.target.value;
+                  setPrompts({ ...prompts, [detectType]: parts });
                 }
               }}
               onKeyDown={(e) => {
@@ -391,14 +630,101 @@ export function Prompt({
               }}
             />
             </>)}
+            <label className="flex items-center gap-2">
+              Item limit:
+              <input
+                type="number"
+                min="1"
+                max="100"
+                step="1"
+                value={itemLimitDraft ?? itemLimits[detectType]}
+                onChange={(e) => setItemLimitDraft(e.target.value)}
+                onBlur={() => {
+                  if (itemLimitDraft === null) return;
+                  setItemLimits({
+                    ...itemLimits,
+                    [detectType]: clampItemLimit(Number(itemLimitDraft)),
+                  });
+                  setItemLimitDraft(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") e.currentTarget.blur();
+                }}
+                className="w-16 px-2 py-1 bg-[var(--input-color)] rounded"
+              />
+            </label>
           </div>
         )}
       </div>
+      {!isWebcam && canTile(detectType) && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 select-none">
+            <input
+              type="checkbox"
+              checked={tiling.enabled}
+              onChange={(e) => setTiling({ ...tiling, enabled: e.target.checked })}
+            />
+            <div>tile at full resolution</div>
+          </label>
+          {tiling.enabled && (
+            <>
+              <label className="flex items-center gap-2">
+                Tile size (px):
+                <input
+                  type="number"
+                  min="256"
+                  step="128"
+                  value={tileSizeDraft ?? tiling.tileSize}
+                  onChange={(e) => setTileSizeDraft(e.target.value)}
+                  onBlur={() => {
+                    if (tileSizeDraft === null) return;
+                    setTiling({
+                      ...tiling,
+                      tileSize: Math.max(256, Math.round(Number(tileSizeDraft)) || 256),
+                    });
+                    setTileSizeDraft(null);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  className="w-20 px-2 py-1 bg-[var(--input-color)] rounded"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Overlap (%):
+                <input
+                  type="number"
+                  min="0"
+                  max="50"
+                  step="5"
+                  value={Math.round(tiling.overlap * 100)}
+                  onChange={(e) =>
+                    setTiling({
+                      ...tiling,
+                      overlap: Math.min(50, Math.max(0, Number(e.target.value) || 0)) / 100,
+                    })
+                  }
+                  className="w-16 px-2 py-1 bg-[var(--input-color)] rounded"
+                />
+              </label>
+              <div className="text-[var(--text-color-secondary)]">
+                {cropRegions(mediaDimensions, rois, tiling).length} requests per send
+                {tiling.tileSize > captureSettings.maxSize &&
+                  `, tiles scaled to ${Math.round(
+                    (captureSettings.maxSize / tiling.tileSize) * 100,
+                  )}% by the ${captureSettings.maxSize}px capture size`}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      <CaptureSettingsPanel />
       <div className="flex justify-between gap-3">
         <div className="flex items-center gap-3">
           <button 
-            className={`${isAnalyzing ? "bg-red-500" : "bg-[#3B68FF]"} px-12 !text-white !border-none`} 
+            className={`${isAnalyzing ? "bg-red-500" : "bg-[#3B68FF]"} px-12 !text-white !border-none disabled:opacity-50 disabled:cursor-not-allowed`} 
             onClick={handleSend}
+            disabled={!isWebcam && isBusy}
           >
             {isWebcam ? (isAnalyzing ? "Stop" : "Start") : "Send"}
           </button>
@@ -409,10 +735,48 @@ export function Prompt({
                 type="number"
                 min="0.1"
                 step="0.1"
-                value={analyzeInterval}
-                onChange={(e) => setAnalyzeInterval(Math.max(0.1, Number(e.target.value)))}
+                value={intervalDraft ?? analyzeInterval}
+                onChange={(e) => setIntervalDraft(e.target.value)}
+                onBlur={() => {
+                  if (intervalDraft === null) return;
+                  setAnalyzeInterval(Math.max(0.1, Number(intervalDraft) || 0.1));
+                  setIntervalDraft(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") e.currentTarget.blur();
+                }}
                 className="w-16 px-2 py-1 bg-[var(--input-color)] rounded"
               />
+              <label className="whitespace-nowrap">Max in flight:</label>
+              <input
+                type="number"
+                min="1"
+                max="8"
+                step="1"
+                value={maxInFlightDraft ?? maxInFlight}
+                onChange={(e) => setMaxInFlightDraft(e.target.value)}
+                onBlur={() => {
+                  if (maxInFlightDraft === null) return;
+                  setMaxInFlight(
+                    Math.min(8, Math.max(1, Math.round(Number(maxInFlightDraft)) || 1)),
+                  );
+                  setMaxInFlightDraft(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") e.currentTarget.blur();
+                }}
+                className="w-12 px-2 py-1 bg-[var(--input-color)] rounded"
+              />
+              {schedulerStats && (
+                <div
+                  className="whitespace-nowrap text-sm text-[var(--text-color-secondary)]"
+                  title={`Capturing every ${Math.round(schedulerStats.intervalMs)} ms, ${schedulerStats.dropped} frames dropped`}
+                >
+                  {schedulerStats.fps.toFixed(1)} fps · {schedulerStats.inFlight}/{maxInFlight} in flight
+                  {schedulerStats.latencyMs !== null &&
+                    ` · ${Math.round(schedulerStats.latencyMs)} ms`}
+                </div>
+              )}
             </div>
           )}
         </div>
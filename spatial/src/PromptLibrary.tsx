@@ -0,0 +1,230 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useState } from "react";
+import {
+  ActivePresetsAtom,
+  DetectTypeAtom,
+  ItemLimitsAtom,
+  LabelPromptAtom,
+  PromptPresetsAtom,
+  PromptsAtom,
+  TargetPromptAtom,
+  TemperatureAtom,
+} from "./atoms";
+import {
+  PromptPreset,
+  exportPresets,
+  parsePresets,
+  uniqueName,
+} from "./promptPresets";
+import { downloadFile, getErrorMessage } from "./utils";
+
+const linkButton = "p-0 border-none underline bg-transparent";
+
+export function PromptLibrary() {
+  const [presets, setPresets] = useAtom(PromptPresetsAtom);
+  const [activePresets, setActivePresets] = useAtom(ActivePresetsAtom);
+  const [detectType] = useAtom(DetectTypeAtom);
+  const [prompts, setPrompts] = useAtom(PromptsAtom);
+  const [targetPrompt, setTargetPrompt] = useAtom(TargetPromptAtom);
+  const [labelPrompt, setLabelPrompt] = useAtom(LabelPromptAtom);
+  const [itemLimits, setItemLimits] = useAtom(ItemLimitsAtom);
+  const [temperature, setTemperature] = useAtom(TemperatureAtom);
+  const [error, setError] = useState<string | null>(null);
+
+  const is2d = detectType === "2D bounding boxes";
+  const available = presets.filter((p) => p.detectType === detectType);
+  const active = available.find((p) => p.id === activePresets[detectType]);
+  const current = {
+    detectType,
+    target: is2d ? targetPrompt : prompts[detectType][1],
+    label: is2d ? labelPrompt : "",
+    itemLimit: itemLimits[detectType],
+    temperature,
+  };
+  const modified =
+    active &&
+    (active.target !== current.target ||
+      active.label !== current.label ||
+      active.itemLimit !== current.itemLimit ||
+      active.temperature !== current.temperature);
+
+  const setActive = (id: string | undefined) =>
+    setActivePresets((prev) => ({ ...prev, [detectType]: id }));
+
+  function apply(preset: PromptPreset) {
+    if (is2d) {
+      setTargetPrompt(preset.target);
+      setLabelPrompt(preset.label);
+    } else {
+      setPrompts((prev) => {
+        const parts = [...prev[detectType]];
+        parts[1] = preset.target;
+        return { ...prev, [detectType]: parts };
+      });
+    }
+    setItemLimits((prev) => ({ ...prev, [detectType]: preset.itemLimit }));
+    setTemperature(preset.temperature);
+    setActive(preset.id);
+  }
+
+  function askName(message: string, initial: string) {
+    const name = window.prompt(message, initial)?.trim();
+    return name ? name : null;
+  }
+
+  function saveAs() {
+    const name = askName("Preset name", active ? `${active.name} copy` : current.target);
+    if (!name) return;
+    const preset = {
+      id: crypto.randomUUID(),
+      name: uniqueName(presets, detectType, name),
+      ...current,
+    };
+    setPresets((prev) => [...prev, preset]);
+    setActive(preset.id);
+  }
+
+  function save() {
+    if (!active) return saveAs();
+    setPresets((prev) =>
+      prev.map((p) => (p.id === active.id ? { ...p, ...current } : p)),
+    );
+  }
+
+  function rename() {
+    if (!active) return;
+    const name = askName("Rename preset", active.name);
+    if (!name || name === active.name) return;
+    const others = presets.filter((p) => p.id !== active.id);
+    setPresets((prev) =>
+      prev.map((p) =>
+        p.id === active.id
+          ? { ...p, name: uniqueName(others, detectType, name) }
+          : p,
+      ),
+    );
+  }
+
+  function duplicate() {
+    if (!active) return;
+    const preset = {
+      ...active,
+      id: crypto.randomUUID(),
+      name: uniqueName(presets, detectType, `${active.name} copy`),
+    };
+    setPresets((prev) => [...prev, preset]);
+    apply(preset);
+  }
+
+  function remove() {
+    if (!active) return;
+    setPresets((prev) => prev.filter((p) => p.id !== active.id));
+    setActive(undefined);
+  }
+
+  async function importFile(file: File) {
+    try {
+      const imported = parsePresets(await file.text());
+      setPresets((prev) =>
+        imported.reduce(
+          (all, preset) => [
+            ...all,
+            { ...preset, name: uniqueName(all, preset.detectType, preset.name) },
+          ],
+          prev,
+        ),
+      );
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <label className="whitespace-nowrap">Preset:</label>
+        <select
+          className="min-w-0 max-w-[200px]"
+          value={active?.id ?? ""}
+          onChange={(e) => {
+            const preset = available.find((p) => p.id === e.target.value);
+            if (preset) apply(preset);
+          }}
+        >
+          {!active && <option value="">Unsaved</option>}
+          {available.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        {modified && (
+          <span className="text-[var(--text-color-secondary)]">(edited)</span>
+        )}
+        <div className="flex gap-3">
+          <button className={linkButton} style={{ minHeight: 0 }} onClick={save}>
+            save
+          </button>
+          <button className={linkButton} style={{ minHeight: 0 }} onClick={saveAs}>
+            save as
+          </button>
+          {active && (
+            <>
+              <button className={linkButton} style={{ minHeight: 0 }} onClick={rename}>
+                rename
+              </button>
+              <button className={linkButton} style={{ minHeight: 0 }} onClick={duplicate}>
+                duplicate
+              </button>
+              <button className={linkButton} style={{ minHeight: 0 }} onClick={remove}>
+                delete
+              </button>
+            </>
+          )}
+          <label className={`${linkButton} cursor-pointer`}>
+            <input
+              className="hidden"
+              type="file"
+              accept=".json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importFile(file);
+              }}
+            />
+            import
+          </label>
+          <button
+            className={linkButton}
+            style={{ minHeight: 0 }}
+            onClick={() =>
+              downloadFile(
+                "prompt-presets.json",
+                exportPresets(presets),
+                "application/json",
+              )
+            }
+          >
+            export
+          </button>
+        </div>
+      </div>
+      {error && <div className="text-red-500">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { CommitAtom, DetectTypeAtom, RoiModeAtom, RoisAtom } from "./atoms";
+import { assign } from "./history";
+import { Roi } from "./roi";
+import { canTile } from "./tiling";
+
+// Lists the regions of interest, which can be switched off, renamed and
+// removed. Detection runs in the switched on regions only.
+export function RoiControls() {
+  const [rois] = useAtom(RoisAtom);
+  const [, setRoiMode] = useAtom(RoiModeAtom);
+  const [detectType] = useAtom(DetectTypeAtom);
+  const [, commit] = useAtom(CommitAtom);
+
+  const update = (label: string, id: string, change: Partial<Roi>) =>
+    commit({
+      label,
+      updates: [
+        assign(
+          RoisAtom,
+          rois.map((roi) => (roi.id === id ? { ...roi, ...change } : roi)),
+        ),
+      ],
+    });
+
+  return (
+    <div className="flex gap-3 px-3 py-3 items-center justify-between border-t text-sm">
+      <div className="flex flex-wrap grow gap-x-4 gap-y-2 items-center justify-center">
+        <div className="text-center">
+          {canTile(detectType)
+            ? "Drag on the image to add a region. Detection only looks inside the checked regions."
+            : "Regions don't apply to 3D bounding boxes, which need the whole view."}
+        </div>
+        {rois.map((roi) => (
+          <div key={roi.id} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              title="Detect in this region"
+              checked={roi.active}
+              onChange={(e) =>
+                update(
+                  e.target.checked ? "Enable region" : "Disable region",
+                  roi.id,
+                  { active: e.target.checked },
+                )
+              }
+            />
+            <input
+              className="w-24 px-2 py-1 bg-[var(--input-color)] rounded"
+              defaultValue={roi.name}
+              key={roi.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== roi.name) {
+                  update("Rename region", roi.id, { name });
+                } else {
+                  e.target.value = roi.name;
+                }
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+            />
+            <button
+              className="p-0 border-none bg-transparent"
+              style={{ minHeight: 0 }}
+              title="Remove region"
+              onClick={() =>
+                commit({
+                  label: "Remove region",
+                  updates: [
+                    assign(
+                      RoisAtom,
+                      rois.filter(({ id }) => id !== roi.id),
+                    ),
+                  ],
+                })
+              }
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {rois.length > 1 && (
+          <button
+            className="p-0 border-none underline bg-transparent"
+            style={{ minHeight: 0 }}
+            onClick={() =>
+              commit({ label: "Clear regions", updates: [assign(RoisAtom, [])] })
+            }
+          >
+            clear all
+          </button>
+        )}
+      </div>
+      <button className="flex gap-3 secondary" onClick={() => setRoiMode(false)}>
+        <div className="text-sm">✅</div>
+        <div>Done</div>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useRef, useState } from "react";
+import { CommitAtom, RoiModeAtom, RoisAtom } from "./atoms";
+import { Rect } from "./geometry";
+import { assign } from "./history";
+import { minRoiSize, nextRoiName, rectFromCorners } from "./roi";
+
+// Outlines the regions of interest over the image and, in region mode, adds
+// one for every rectangle dragged out. Coordinates are normalized to this
+// overlay's on-screen rect.
+export function RoiOverlay() {
+  const [rois] = useAtom(RoisAtom);
+  const [roiMode] = useAtom(RoiModeAtom);
+  const [, commit] = useAtom(CommitAtom);
+  const [draft, setDraft] = useState<Rect | null>(null);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const startRef = useRef<[number, number] | null>(null);
+
+  function toNormalized(e: React.PointerEvent): [number, number] {
+    const rect = rootRef.current!.getBoundingClientRect();
+    return [
+      (e.clientX - rect.left) / rect.width,
+      (e.clientY - rect.top) / rect.height,
+    ];
+  }
+
+  if (!roiMode && rois.length === 0) return null;
+
+  return (
+    <div
+      ref={rootRef}
+      className={`absolute inset-0 ${roiMode ? "cursor-crosshair" : "pointer-events-none"}`}
+      style={{ zIndex: 25 }}
+      onPointerDown={(e) => {
+        if (!roiMode || e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        startRef.current = toNormalized(e);
+      }}
+      onPointerMove={(e) => {
+        if (startRef.current) {
+          setDraft(rectFromCorners(startRef.current, toNormalized(e)));
+        }
+      }}
+      onPointerUp={(e) => {
+        if (!startRef.current) return;
+        const rect = rectFromCorners(startRef.current, toNormalized(e));
+        startRef.current = null;
+        setDraft(null);
+        if (rect.width < minRoiSize || rect.height < minRoiSize) return;
+        commit({
+          label: "Add region",
+          updates: [
+            assign(RoisAtom, [
+              ...rois,
+              {
+                ...rect,
+                id: crypto.randomUUID(),
+                name: nextRoiName(rois),
+                active: true,
+              },
+            ]),
+          ],
+        });
+      }}
+    >
+      {rois.map((roi) => (
+        <div
+          key={roi.id}
+          className={`absolute border-2 border-dashed border-[#f59e0b] ${roi.active ? "" : "opacity-40"}`}
+          style={{
+            left: `${roi.x * 100}%`,
+            top: `${roi.y * 100}%`,
+            width: `${roi.width * 100}%`,
+            height: `${roi.height * 100}%`,
+          }}
+        >
+          <div className="absolute left-0 top-0 bg-[#f59e0b] text-white text-xs px-1 whitespace-nowrap">
+            {roi.name}
+          </div>
+        </div>
+      ))}
+      {draft && (
+        <div
+          className="absolute border-2 border-[#f59e0b] bg-[#f59e0b]/10"
+          style={{
+            left: `${draft.x * 100}%`,
+            top: `${draft.y * 100}%`,
+            width: `${draft.width * 100}%`,
+            height: `${draft.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import {
+  RelationFilterAtom,
+  SceneGraphAtom,
+  SelectedInstanceAtom,
+  ShowSceneGraphAtom,
+} from "./atoms";
+import { relationColors } from "./consts";
+
+// Draws the scene graph's relations between the detections on the image. With
+// a node in focus, only its relations are drawn, and they are labelled.
+export function SceneGraphOverlay() {
+  const [graph] = useAtom(SceneGraphAtom);
+  const [showSceneGraph] = useAtom(ShowSceneGraphAtom);
+  const [selected] = useAtom(SelectedInstanceAtom);
+  const [filter] = useAtom(RelationFilterAtom);
+  if (!showSceneGraph || !graph) return null;
+
+  const selectedIndex = graph.nodes.findIndex(({ id }) => id === selected);
+  const focus = selectedIndex === -1 ? null : selectedIndex;
+
+  const centers = graph.nodes.map(({ box }) => [
+    (box.x + box.width / 2) * 100,
+    (box.y + box.height / 2) * 100,
+  ]);
+  const relations = graph.relations.filter(
+    ({ relation, subject, object }) =>
+      filter[relation] && (focus === null || focus === subject || focus === object),
+  );
+
+  return (
+    <svg
+      className="absolute top-0 left-0 w-full h-full pointer-events-none"
+      style={{ zIndex: 20 }}
+    >
+      {relations.map(({ subject, relation, object, description }, i) => {
+        const [x1, y1] = centers[subject];
+        const [x2, y2] = centers[object];
+        return (
+          <g key={i}>
+            <line
+              x1={`${x1}%`}
+              y1={`${y1}%`}
+              x2={`${x2}%`}
+              y2={`${y2}%`}
+              stroke={relationColors[relation]}
+              strokeWidth={2}
+              strokeDasharray={relation === "next to" ? "4" : undefined}
+              strokeOpacity={focus === null ? 0.6 : 1}
+            />
+            {focus !== null && (
+              <text
+                x={`${(x1 + x2) / 2}%`}
+                y={`${(y1 + y2) / 2}%`}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="text-[10px] font-medium"
+                fill={relationColors[relation]}
+                stroke="white"
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {description || relation}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,353 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useMemo, useState } from "react";
+import {
+  BoundingBoxes2DAtom,
+  CaptureSettingsAtom,
+  DetectTypeAtom,
+  ImageSrcAtom,
+  ModelSelectedAtom,
+  PointsAtom,
+  RelationFilterAtom,
+  SceneGraphAtom,
+  SceneGraphRequestAtom,
+  SegmentationMasksAtom,
+  SelectedInstanceAtom,
+  ShareStream,
+  ShowSceneGraphAtom,
+  VideoRefAtom,
+} from "./atoms";
+import { drawScaled, encodeCanvas } from "./capture";
+import { relationColors, relationTypes } from "./consts";
+import { useBackend } from "./hooks";
+import { instanceNames } from "./instances";
+import {
+  exportSceneGraph,
+  getSceneGraphPrompt,
+  parseSceneGraph,
+  sameNodes,
+  sceneNodes,
+} from "./sceneGraph";
+import { ErrorCard, StatusLine } from "./StatusPanel";
+import { RelationType, SceneRelation } from "./Types";
+import {
+  downloadFile,
+  getErrorMessage,
+  isRequestInFlight,
+  loadImage,
+} from "./utils";
+
+const diagramSize = 320;
+const layoutRadius = 120;
+const nodeRadius = 8;
+
+const markerId = (type: RelationType) => `graph-arrow-${type.replace(" ", "-")}`;
+
+// Nodes evenly spaced on a circle, the first at the top.
+function circleLayout(count: number): [number, number][] {
+  const center = diagramSize / 2;
+  if (count === 1) return [[center, center]];
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / count - Math.PI / 2;
+    return [
+      center + layoutRadius * Math.cos(angle),
+      center + layoutRadius * Math.sin(angle),
+    ];
+  });
+}
+
+// Asks for every relation between the current detections at once and shows
+// them as a node-link diagram, filtered by relation type. Focusing a node,
+// here or in the item list, highlights it and its relations over the image.
+export function SceneGraphPanel({
+  sceneContext,
+}: {
+  sceneContext: { scene: string; task: string } | null;
+}) {
+  const [graph, setGraph] = useAtom(SceneGraphAtom);
+  const [request, setRequest] = useAtom(SceneGraphRequestAtom);
+  const [selected, setSelected] = useAtom(SelectedInstanceAtom);
+  const [filter, setFilter] = useAtom(RelationFilterAtom);
+  const [, setShowSceneGraph] = useAtom(ShowSceneGraphAtom);
+  const [detectType] = useAtom(DetectTypeAtom);
+  const [boxes2D] = useAtom(BoundingBoxes2DAtom);
+  const [points] = useAtom(PointsAtom);
+  const [masks] = useAtom(SegmentationMasksAtom);
+  const [imageSrc] = useAtom(ImageSrcAtom);
+  const [stream] = useAtom(ShareStream);
+  const [videoRef] = useAtom(VideoRefAtom);
+  const [captureSettings] = useAtom(CaptureSettingsAtom);
+  const [modelSelected] = useAtom(ModelSelectedAtom);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const backend = useBackend();
+
+  const nodes = useMemo(
+    () => sceneNodes(detectType, { boxes2D, points, masks }),
+    [detectType, boxes2D, points, masks],
+  );
+  const stale = graph !== null && !sameNodes(graph.nodes, nodes);
+  const layout = useMemo(() => circleLayout(graph?.nodes.length ?? 0), [graph]);
+  const names = useMemo(() => instanceNames(graph?.nodes ?? []), [graph]);
+  const nodeName = (index: number) => names.get(graph!.nodes[index].id);
+  // The selected detection's node, if it is in the graph.
+  const selectedIndex = graph?.nodes.findIndex(({ id }) => id === selected) ?? -1;
+  const focus = selectedIndex === -1 ? null : selectedIndex;
+  const visible = graph?.relations.filter(({ relation }) => filter[relation]) ?? [];
+  const highlighted = hovered ?? focus;
+  const touches = (index: number | null, { subject, object }: SceneRelation) =>
+    index === subject || index === object;
+
+  async function build() {
+    let text: string | undefined;
+    try {
+      setRequest({ status: "capturing" });
+      const source = stream ? videoRef.current! : await loadImage(imageSrc!);
+      const image = await encodeCanvas(
+        drawScaled(source, captureSettings.maxSize),
+        captureSettings,
+      );
+      setRequest({ status: "waiting" });
+      text = await backend.sceneGraph({
+        model: modelSelected,
+        prompt: getSceneGraphPrompt(nodes, sceneContext),
+        image,
+        objects: nodes.map(({ label }) => label),
+      });
+      setRequest({ status: "parsing", rawText: text });
+      const { graph, rejected } = parseSceneGraph(text, nodes);
+      if (rejected.length > 0) {
+        console.warn("Rejected relations:", rejected);
+      }
+      setGraph(graph);
+      setRequest({ status: "done", rawText: text });
+    } catch (error) {
+      console.error("Error building scene graph:", error);
+      setRequest({
+        status: "failed",
+        error: getErrorMessage(error),
+        rawText: text,
+      });
+    }
+  }
+
+  return (
+    <div className="flex flex-col shrink-0 w-[360px] border-l text-sm overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <div className="font-medium">
+          Scene graph ({graph ? graph.relations.length : 0})
+        </div>
+        <button
+          className="p-0 border-none bg-transparent"
+          style={{ minHeight: 0 }}
+          title="Close"
+          onClick={() => setShowSceneGraph(false)}
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex flex-col gap-2 px-3 py-2 border-b">
+        <div className="flex items-center gap-3">
+          <button
+            className="disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={nodes.length < 2 || isRequestInFlight(request)}
+            onClick={build}
+          >
+            {graph ? "Rebuild" : "Build graph"}
+          </button>
+          {graph && (
+            <button
+              className="p-0 border-none underline bg-transparent"
+              style={{ minHeight: 0 }}
+              onClick={() =>
+                downloadFile(
+                  "scene-graph.json",
+                  exportSceneGraph(graph),
+                  "application/json",
+                )
+              }
+            >
+              export JSON
+            </button>
+          )}
+        </div>
+        <StatusLine name="Scene graph" request={request} />
+        {request.status === "failed" && (
+          <ErrorCard name="Scene graph" request={request} onRetry={build} />
+        )}
+        {nodes.length < 2 && (
+          <div className="text-[var(--text-color-secondary)]">
+            {detectType === "3D bounding boxes"
+              ? "Scene graphs need 2D boxes, points or masks."
+              : "Detect at least two items to relate them."}
+          </div>
+        )}
+        {stale && (
+          <div className="text-[var(--text-color-secondary)]">
+            The detections changed since this graph was built.
+          </div>
+        )}
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {relationTypes.map((type) => (
+            <label key={type} className="flex items-center gap-1 select-none">
+              <input
+                type="checkbox"
+                checked={filter[type]}
+                onChange={(e) => setFilter({ ...filter, [type]: e.target.checked })}
+              />
+              <div className="w-3 h-1" style={{ background: relationColors[type] }} />
+              {type} ({graph?.relations.filter(({ relation }) => relation === type).length ?? 0})
+            </label>
+          ))}
+        </div>
+      </div>
+      {graph && (
+        <>
+          <svg
+            className="w-full aspect-square shrink-0 select-none"
+            viewBox={`0 0 ${diagramSize} ${diagramSize}`}
+            onClick={() => setSelected(null)}
+          >
+            <defs>
+              {relationTypes.map((type) => (
+                <marker
+                  key={type}
+                  id={markerId(type)}
+                  viewBox="0 0 10 10"
+                  refX="10"
+                  refY="5"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={relationColors[type]} />
+                </marker>
+              ))}
+            </defs>
+            {visible.map((relation, i) => {
+              const [x1, y1] = layout[relation.subject];
+              const [x2, y2] = layout[relation.object];
+              const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+              const dx = ((x2 - x1) / length) * nodeRadius;
+              const dy = ((y2 - y1) / length) * nodeRadius;
+              const faded = highlighted !== null && !touches(highlighted, relation);
+              return (
+                <line
+                  key={i}
+                  x1={x1 + dx}
+                  y1={y1 + dy}
+                  x2={x2 - dx}
+                  y2={y2 - dy}
+                  stroke={relationColors[relation.relation]}
+                  strokeWidth={2}
+                  strokeOpacity={faded ? 0.15 : 0.9}
+                  markerEnd={
+                    relation.relation === "next to"
+                      ? undefined
+                      : `url(#${markerId(relation.relation)})`
+                  }
+                >
+                  <title>
+                    {nodeName(relation.subject)} {relation.relation}{" "}
+                    {nodeName(relation.object)}
+                  </title>
+                </line>
+              );
+            })}
+            {graph.nodes.map((node, i) => {
+              const [x, y] = layout[i];
+              const related =
+                highlighted !== null &&
+                visible.some(
+                  (relation) => touches(highlighted, relation) && touches(i, relation),
+                );
+              const color =
+                i === highlighted ? "#ff3b3b" : related ? "#22c55e" : "#3B68FF";
+              const faded = highlighted !== null && i !== highlighted && !related;
+              // Labels sit outside the circle so they don't cover the edges.
+              const center = diagramSize / 2;
+              const outward =
+                x < center - 1 ? "end" : x > center + 1 ? "start" : "middle";
+              return (
+                <g
+                  key={i}
+                  className="cursor-pointer"
+                  opacity={faded ? 0.35 : 1}
+                  onPointerEnter={() => setHovered(i)}
+                  onPointerLeave={() => setHovered(null)}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSelected(focus === i ? null : node.id);
+                  }}
+                >
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={nodeRadius}
+                    fill={color}
+                    stroke="white"
+                    strokeWidth={2}
+                  />
+                  <text
+                    x={x + (outward === "end" ? -12 : outward === "start" ? 12 : 0)}
+                    y={y < center ? y - 12 : y + 20}
+                    textAnchor={outward}
+                    fontSize={11}
+                    fill="currentColor"
+                  >
+                    {nodeName(i)}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+          <div className="flex flex-col overflow-y-auto border-t">
+            {visible.length === 0 && (
+              <div className="px-3 py-2 text-[var(--text-color-secondary)]">
+                No relations to show.
+              </div>
+            )}
+            {visible.map((relation, i) => (
+              <button
+                key={i}
+                className={`flex gap-2 items-baseline px-3 py-1 border-none rounded-none bg-transparent text-left ${
+                  touches(highlighted, relation) ? "bg-[var(--input-color)]" : ""
+                }`}
+                style={{ minHeight: 0 }}
+                onClick={() => setSelected(graph.nodes[relation.subject].id)}
+              >
+                <div
+                  className="w-2 h-2 rounded-full shrink-0"
+                  style={{ background: relationColors[relation.relation] }}
+                />
+                <div>
+                  {nodeName(relation.subject)}{" "}
+                  <span className="font-medium">{relation.relation}</span>{" "}
+                  {nodeName(relation.object)}
+                  {relation.description && (
+                    <span className="text-[var(--text-color-secondary)]">
+                      {" "}
+                      · {relation.description}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { useMemo, useRef, useState } from "react";
+import {
+  BoundingBoxes3DAtom,
+  CameraAtom,
+  MediaDimensionsAtom,
+  ShowSceneViewAtom,
+} from "./atoms";
+import {
+  Vec3,
+  boxCorners,
+  boxEdges,
+  cameraPosition,
+  clipSegment,
+  dot,
+  toWorldFrame,
+  unprojectPixel,
+} from "./camera";
+import { boxColors } from "./consts";
+
+type Orbit = {
+  // Radians around the vertical axis; 0 looks along the camera's forward axis.
+  azimuth: number;
+  // Radians above the ground.
+  elevation: number;
+  zoom: number;
+};
+
+const defaultOrbit: Orbit = { azimuth: -0.6, elevation: 0.5, zoom: 1 };
+// Size of the square SVG viewBox, and the orbit camera's focal length in it.
+const viewSize = 360;
+const focal = viewSize;
+const near = 0.01;
+const gridSteps = [0.1, 0.25, 0.5, 1, 2, 5, 10, 25, 50];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const normalize = (v: Vec3): Vec3 => {
+  const length = Math.sqrt(dot(v, v)) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+};
+
+export function SceneView() {
+  const [boxes] = useAtom(BoundingBoxes3DAtom);
+  const [{ intrinsics, extrinsics }] = useAtom(CameraAtom);
+  const [{ width, height }] = useAtom(MediaDimensionsAtom);
+  const [, setShowSceneView] = useAtom(ShowSceneViewAtom);
+  const [orbit, setOrbit] = useState(defaultOrbit);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const scene = useMemo(() => {
+    const boxCornerLists = boxes.map(boxCorners);
+    const position = cameraPosition(extrinsics);
+    // Orbit around the boxes, or a little in front of the camera.
+    const target: Vec3 = boxes.length
+      ? [0, 1, 2].map(
+          (i) => boxes.reduce((sum, box) => sum + box.center[i], 0) / boxes.length,
+        ) as Vec3
+      : [position[0], position[1] + 2, 0];
+    const extent = Math.max(
+      1,
+      ...[position, ...boxCornerLists.flat()].map((point) =>
+        Math.hypot(point[0] - target[0], point[1] - target[1]),
+      ),
+    );
+    const step = gridSteps.find((step) => extent / step <= 6) ?? 100;
+    const frustumDepth = extent * 0.2;
+    const frustum = (
+      [
+        [0, 0],
+        [width, 0],
+        [width, height],
+        [0, height],
+      ] as const
+    ).map(([u, v]) => {
+      const [x, y] = unprojectPixel(intrinsics, u, v);
+      return toWorldFrame(extrinsics, [x * frustumDepth, y * frustumDepth, frustumDepth]);
+    });
+    return { boxCornerLists, position, target, extent, step, frustum };
+  }, [boxes, intrinsics, extrinsics, width, height]);
+
+  const { target, extent, step } = scene;
+  const distance = (extent * 2.5) / orbit.zoom;
+  const eye: Vec3 = [
+    target[0] + distance * Math.cos(orbit.elevation) * Math.sin(orbit.azimuth),
+    target[1] - distance * Math.cos(orbit.elevation) * Math.cos(orbit.azimuth),
+    target[2] + distance * Math.sin(orbit.elevation),
+  ];
+  const forward = normalize(sub(target, eye));
+  const right = normalize(cross(forward, [0, 0, 1]));
+  const up = cross(right, forward);
+
+  // Orbit camera frame, with y pointing up on screen.
+  const toView = (point: Vec3): Vec3 => {
+    const d = sub(point, eye);
+    return [dot(d, right), dot(d, up), dot(d, forward)];
+  };
+  const toScreen = ([x, y, depth]: Vec3): [number, number] => [
+    viewSize / 2 + (focal * x) / depth,
+    viewSize / 2 - (focal * y) / depth,
+  ];
+  const project = (point: Vec3) => {
+    const view = toView(point);
+    return view[2] < near ? null : toScreen(view);
+  };
+
+  const segment = (
+    key: string,
+    a: Vec3,
+    b: Vec3,
+    props: React.SVGProps<SVGLineElement>,
+  ) => {
+    const clipped = clipSegment(toView(a), toView(b), near);
+    if (!clipped) return null;
+    const [start, end] = clipped.map(toScreen);
+    return (
+      <line
+        key={key}
+        x1={start[0]}
+        y1={start[1]}
+        x2={end[0]}
+        y2={end[1]}
+        {...props}
+      />
+    );
+  };
+
+  const gridLines = [];
+  const gridCount = Math.ceil(extent / step) + 1;
+  const [gx, gy] = [
+    Math.round(target[0] / step) * step,
+    Math.round(target[1] / step) * step,
+  ];
+  const half = gridCount * step;
+  for (let i = -gridCount; i <= gridCount; i++) {
+    const offset = i * step;
+    gridLines.push(
+      segment(`gx${i}`, [gx + offset, gy - half, 0], [gx + offset, gy + half, 0], {}),
+      segment(`gy${i}`, [gx - half, gy + offset, 0], [gx + half, gy + offset, 0], {}),
+    );
+  }
+
+  return (
+    <div className="flex flex-col shrink-0 w-[360px] border-l text-sm overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <div className="font-medium">3D view ({boxes.length})</div>
+        <div className="flex gap-3">
+          <button
+            className="p-0 border-none underline bg-transparent"
+            style={{ minHeight: 0 }}
+            onClick={() => setOrbit(defaultOrbit)}
+          >
+            reset view
+          </button>
+          <button
+            className="p-0 border-none bg-transparent"
+            style={{ minHeight: 0 }}
+            title="Close"
+            onClick={() => setShowSceneView(false)}
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+      <svg
+        className="w-full aspect-square cursor-grab touch-none select-none"
+        viewBox={`0 0 ${viewSize} ${viewSize}`}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragRef.current = { x: e.clientX, y: e.clientY };
+        }}
+        onPointerMove={(e) => {
+          const drag = dragRef.current;
+          if (!drag) return;
+          const [dx, dy] = [e.clientX - drag.x, e.clientY - drag.y];
+          dragRef.current = { x: e.clientX, y: e.clientY };
+          setOrbit((prev) => ({
+            ...prev,
+            azimuth: prev.azimuth - dx * 0.01,
+            elevation: Math.min(1.5, Math.max(-1.5, prev.elevation + dy * 0.01)),
+          }));
+        }}
+        onPointerUp={() => (dragRef.current = null)}
+        onWheel={(e) =>
+          setOrbit((prev) => ({
+            ...prev,
+            zoom: Math.min(10, Math.max(0.2, prev.zoom * Math.exp(-e.deltaY * 0.001))),
+          }))
+        }
+      >
+        <g stroke="var(--border-color)" strokeWidth={1}>
+          {gridLines}
+        </g>
+        <g stroke="#888D8F" strokeWidth={1}>
+          {scene.frustum.map((corner, i) => [
+            segment(`fr${i}`, scene.position, corner, {}),
+            segment(`fe${i}`, corner, scene.frustum[(i + 1) % 4], {}),
+          ])}
+        </g>
+        {scene.boxCornerLists.map((corners, i) => {
+          const bottom = corners.slice(4);
+          const [x, y, z] = boxes[i].center;
+          const lowest = Math.min(...corners.map((corner) => corner[2]));
+          const labelPosition = project([x, y, Math.max(...corners.map((c) => c[2]))]);
+          return (
+            <g key={i}>
+              {/* Footprint on the ground and a drop line, to show floating or sunken boxes. */}
+              <g stroke="#888D8F" strokeWidth={1} strokeDasharray="3 3">
+                {bottom.map((corner, j) => {
+                  const next = bottom[(j + 1) % 4];
+                  return segment(
+                    `f${j}`,
+                    [corner[0], corner[1], 0],
+                    [next[0], next[1], 0],
+                    {},
+                  );
+                })}
+                {Math.abs(lowest) > 1e-3 &&
+                  segment("drop", [x, y, z], [x, y, 0], {})}
+              </g>
+              <g stroke={boxColors[i % boxColors.length]} strokeWidth={2}>
+                {boxEdges.map(([a, b], j) =>
+                  segment(`e${j}`, corners[a], corners[b], {}),
+                )}
+              </g>
+              {labelPosition && (
+                <text
+                  x={labelPosition[0]}
+                  y={labelPosition[1] - 4}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fill="currentColor"
+                >
+                  {boxes[i].label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="px-3 py-2 text-[var(--text-color-secondary)]">
+        {boxes.length
+          ? `Drag to orbit, scroll to zoom. Grid spacing ${step}.`
+          : "3D boxes appear here after a detection."}
+      </div>
+    </div>
+  );
+}
@@ -17,8 +17,11 @@ import {
   ImageSrcAtom,
   ImageSentAtom,
   DrawModeAtom,
+  EditModeAtom,
+  RoiModeAtom,
   IsUploadedImageAtom,
   BumpSessionAtom,
+  ImageNameAtom,
 } from "./atoms";
 import { ScreenshareButton } from "./ScreenshareButton";
 import { WebcamButton } from "./WebcamButton";
@@ -27,9 +30,12 @@ import { useResetState } from "./hooks";
 export function SideControls() {
   const [, setImageSrc] = useAtom(ImageSrcAtom);
   const [drawMode, setDrawMode] = useAtom(DrawModeAtom);
+  const [editMode, setEditMode] = useAtom(EditModeAtom);
+  const [roiMode, setRoiMode] = useAtom(RoiModeAtom);
   const [, setIsUploadedImage] = useAtom(IsUploadedImageAtom);
   const [, setBumpSession] = useAtom(BumpSessionAtom);
   const [, setImageSent] = useAtom(ImageSentAtom);
+  const [, setImageName] = useAtom(ImageNameAtom);
   const resetState = useResetState();
 
   return (
@@ -46,6 +52,7 @@ export function SideControls() {
               reader.onload = (e) => {
                 resetState();
                 setImageSrc(e.target?.result as string);
+                setImageName(file.name);
                 setIsUploadedImage(true);
                 setImageSent(false);
                 setBumpSession((prev) => prev + 1);
@@ -61,11 +68,35 @@ export function SideControls() {
           className="button flex gap-3 justify-center items-center"
           onClick={() => {
             setDrawMode(!drawMode);
+            setEditMode(false);
+            setRoiMode(false);
           }}
         >
           <div className="text-lg"> 🎨</div>
           <div>Draw on image</div>
         </button>
+        <button
+          className="button flex gap-3 justify-center items-center"
+          onClick={() => {
+            setEditMode(!editMode);
+            setDrawMode(false);
+            setRoiMode(false);
+          }}
+        >
+          <div className="text-lg">✏️</div>
+          <div>Edit detections</div>
+        </button>
+        <button
+          className="button flex gap-3 justify-center items-center"
+          onClick={() => {
+            setRoiMode(!roiMode);
+            setDrawMode(false);
+            setEditMode(false);
+          }}
+        >
+          <div className="text-lg">🔲</div>
+          <div>Select regions</div>
+        </button>
         <WebcamButton />
         <ScreenshareButton />
       </div>
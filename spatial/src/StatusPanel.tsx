@@ -0,0 +1,121 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { DetectionRequestAtom, SceneContextRequestAtom } from "./atoms";
+import { RequestState, RequestStatus } from "./Types";
+import { isRequestInFlight } from "./utils";
+
+const statusText: Record<RequestStatus, string> = {
+  idle: "",
+  capturing: "Capturing frame…",
+  waiting: "Waiting for model…",
+  parsing: "Parsing response…",
+  done: "Done",
+  failed: "Failed",
+};
+
+export function StatusPanel({
+  onRetryDetection,
+  onRetrySceneContext,
+}: {
+  onRetryDetection: () => void;
+  onRetrySceneContext: () => void;
+}) {
+  const [detectionRequest] = useAtom(DetectionRequestAtom);
+  const [sceneContextRequest] = useAtom(SceneContextRequestAtom);
+
+  if (
+    detectionRequest.status === "idle" &&
+    sceneContextRequest.status === "idle"
+  ) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex gap-6 text-[var(--text-color-secondary)]">
+        <StatusLine name="Detection" request={detectionRequest} />
+        <StatusLine name="Scene context" request={sceneContextRequest} />
+      </div>
+      {detectionRequest.status === "failed" && (
+        <ErrorCard
+          name="Detection"
+          request={detectionRequest}
+          onRetry={onRetryDetection}
+        />
+      )}
+      {sceneContextRequest.status === "failed" && (
+        <ErrorCard
+          name="Scene context"
+          request={sceneContextRequest}
+          onRetry={onRetrySceneContext}
+        />
+      )}
+    </div>
+  );
+}
+
+export function StatusLine({
+  name,
+  request,
+}: {
+  name: string;
+  request: RequestState;
+}) {
+  if (request.status === "idle") return null;
+  return (
+    <div className="flex items-center gap-2">
+      {isRequestInFlight(request) && (
+        <div className="w-3 h-3 rounded-full border-2 border-[var(--accent-color)] border-t-transparent animate-spin" />
+      )}
+      <div className={request.status === "failed" ? "text-red-500" : ""}>
+        {name}: {statusText[request.status]}
+      </div>
+    </div>
+  );
+}
+
+export function ErrorCard({
+  name,
+  request,
+  onRetry,
+}: {
+  name: string;
+  request: RequestState;
+  onRetry: () => void;
+}) {
+  return (
+    <div className="flex flex-col gap-2 border border-red-400 rounded-lg p-3">
+      <div className="flex justify-between items-center gap-3">
+        <div>
+          <span className="font-medium">{name} failed:</span> {request.error}
+        </div>
+        <button className="secondary shrink-0" onClick={onRetry}>
+          Retry
+        </button>
+      </div>
+      {request.rawText !== undefined && (
+        <details>
+          <summary className="cursor-pointer text-[var(--text-color-secondary)]">
+            Raw model response
+          </summary>
+          <pre className="mt-2 max-h-40 overflow-auto whitespace-pre-wrap text-xs bg-[var(--input-color)] rounded p-2">
+            {request.rawText || "(empty)"}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
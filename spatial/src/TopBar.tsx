@@ -15,13 +15,26 @@
 import { useAtom } from "jotai";
 import { useResetState } from "./hooks";
 import {
+  BackendAtom,
+  CompareModeAtom,
   DetectTypeAtom,
   HoverEnteredAtom,
   ModelSelectedAtom,
+  RedoAtom,
+  RedoStackAtom,
   RevealOnHoverModeAtom,
+  ShareStream,
+  ShowBatchAtom,
+  ShowChatAtom,
   ShowConfigAtom,
+  ShowHistoryAtom,
+  ShowSceneGraphAtom,
+  UndoAtom,
+  UndoStackAtom,
 } from "./atoms";
-import { modelOptions } from "./consts";
+import { backendOptions, modelOptions } from "./consts";
+import { BackendName } from "./Types";
+import { ExportMenu } from "./ExportMenu";
 
 export function TopBar() {
   const resetState = useResetState();
@@ -29,7 +42,20 @@ export function TopBar() {
   const [detectType] = useAtom(DetectTypeAtom);
   const [, setHoverEntered] = useAtom(HoverEnteredAtom);
   const [modelSelected, setModelSelected] = useAtom(ModelSelectedAtom);
+  const [backendName, setBackendName] = useAtom(BackendAtom);
   const [showConfig,] = useAtom(ShowConfigAtom);
+  const [showHistory, setShowHistory] = useAtom(ShowHistoryAtom);
+  const [showBatch, setShowBatch] = useAtom(ShowBatchAtom);
+  const [showSceneGraph, setShowSceneGraph] = useAtom(ShowSceneGraphAtom);
+  const [showChat, setShowChat] = useAtom(ShowChatAtom);
+  const [compareMode, setCompareMode] = useAtom(CompareModeAtom);
+  const [stream] = useAtom(ShareStream);
+  const [undoStack] = useAtom(UndoStackAtom);
+  const [redoStack] = useAtom(RedoStackAtom);
+  const [, undo] = useAtom(UndoAtom);
+  const [, redo] = useAtom(RedoAtom);
+  const nextUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
 
   return (
     <div className="flex w-full items-center px-3 py-2 border-b justify-between">
@@ -45,9 +71,61 @@ export function TopBar() {
         >
           <div>Reset session</div>
         </button>
+        <button
+          className="secondary disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!nextUndo}
+          title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : "Nothing to undo"}
+          onClick={() => undo()}
+        >
+          ↶ Undo
+        </button>
+        <button
+          className="secondary disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!nextRedo}
+          title={
+            nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : "Nothing to redo"
+          }
+          onClick={() => redo()}
+        >
+          ↷ Redo
+        </button>
       </div>
       <div className="flex gap-3 items-center">
-        {detectType === "2D bounding boxes" ? (
+        <button
+          className={showHistory ? "" : "secondary"}
+          onClick={() => setShowHistory(!showHistory)}
+        >
+          History
+        </button>
+        <button
+          className={showBatch ? "" : "secondary"}
+          onClick={() => setShowBatch(!showBatch)}
+        >
+          Batch
+        </button>
+        <button
+          className={showSceneGraph ? "" : "secondary"}
+          onClick={() => setShowSceneGraph(!showSceneGraph)}
+        >
+          Scene graph
+        </button>
+        <button
+          className={showChat ? "" : "secondary"}
+          onClick={() => setShowChat(!showChat)}
+        >
+          Chat
+        </button>
+        <button
+          className={`${compareMode ? "" : "secondary"} disabled:opacity-50 disabled:cursor-not-allowed`}
+          disabled={stream !== null}
+          title={stream ? "Stop the webcam or screen share to compare models" : undefined}
+          onClick={() => setCompareMode(!compareMode)}
+        >
+          Compare
+        </button>
+        <ExportMenu />
+        {detectType === "2D bounding boxes" ||
+        detectType === "Segmentation masks" ? (
           <div>
             <label className="flex items-center gap-2 px-3 select-none whitespace-nowrap">
               <input
@@ -65,6 +143,19 @@ export function TopBar() {
           </div>
         ) : null}
         {showConfig && (<label className="flex gap-2 items-center">
+          <select
+            className="border bg-transparent py-1 px-1 focus:border-[#80BBFF] rounded-md"
+            value={backendName}
+            onChange={(e) => {
+              setBackendName(e.target.value as BackendName);
+            }}
+          >
+            {backendOptions.map((backend) => (
+              <option key={backend} value={backend}>
+                {backend}
+              </option>
+            ))}
+          </select>
           <select
             className="border bg-transparent py-1 px-1 focus:border-[#80BBFF] rounded-md"
             value={modelSelected}
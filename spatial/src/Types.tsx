@@ -12,22 +12,70 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-export type DetectTypes = "2D bounding boxes" | "3D bounding boxes" | "Points";
+export type DetectTypes =
+  | "2D bounding boxes"
+  | "3D bounding boxes"
+  | "Points"
+  | "Segmentation masks";
+
+export type BackendName = "gemini" | "http" | "mock";
+
+export type RequestStatus =
+  | "idle"
+  | "capturing"
+  | "waiting"
+  | "parsing"
+  | "done"
+  | "failed";
+
+export type RequestState = {
+  status: RequestStatus;
+  error?: string;
+  // The unparsed model output, kept so failures can be inspected.
+  rawText?: string;
+};
 
 export type BoundingBox2DType = {
+  // Identifies this detection among others with the same label.
+  id: string;
   x: number;
   y: number;
   width: number;
   height: number;
   label: string;
+  // Set while the box is followed by the webcam tracker.
+  trackId?: number;
 };
 
 export type BoundingBox3DType = {
+  id: string;
   center: [number, number, number];
   size: [number, number, number];
   rpy: [number, number, number];
   label: string;
 };
 
+export type SegmentationMaskType = {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  color: string;
+  // Tinted mask as a data URL, stretched over the box when rendered.
+  imageData: string;
+  // Outline of each mask region in normalized image coordinates.
+  polygons: [number, number][][];
+};
 
+export type RelationType = "on" | "inside" | "next to" | "used with";
 
+// A directed relation between two scene graph nodes, given by index, read as
+// "subject relation object", e.g. "mug on table".
+export type SceneRelation = {
+  subject: number;
+  relation: RelationType;
+  object: number;
+  description: string;
+};
@@ -13,11 +13,12 @@
 // limitations under the License.
 
 import { useAtom } from "jotai";
-import { ShareStream } from "./atoms";
+import { CompareModeAtom, ShareStream } from "./atoms";
 import { useResetState } from "./hooks";
 
 export function WebcamButton() {
   const [, setStream] = useAtom(ShareStream);
+  const [, setCompareMode] = useAtom(CompareModeAtom);
   const resetState = useResetState();
 
   return (
@@ -28,6 +29,9 @@ export function WebcamButton() {
         navigator.mediaDevices
           .getUserMedia({ video: true })
           .then((stream) => {
+            // Comparing needs a still frame, and the video is only shown
+            // outside compare mode.
+            setCompareMode(false);
             setStream(stream);
           });
       }}
@@ -0,0 +1,114 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useAtom } from "jotai";
+import { ImageSrcAtom, ShareStream, ViewportAtom } from "./atoms";
+import {
+  Size,
+  centerOn,
+  fitViewport,
+  visibleRegion,
+  zoomAt,
+} from "./viewport";
+
+const minimapWidth = 160;
+
+// Zoom buttons, and a minimap of the image with the visible part outlined
+// while zoomed in. area is the zoomable area and media the image inside it.
+export function ZoomControls({ area, media }: { area: Size; media: Size }) {
+  const [viewport, setViewport] = useAtom(ViewportAtom);
+  const [imageSrc] = useAtom(ImageSrcAtom);
+  const [stream] = useAtom(ShareStream);
+
+  // The media is centered in the area.
+  const offsetX = (area.width - media.width) / 2;
+  const offsetY = (area.height - media.height) / 2;
+  const region = visibleRegion(viewport, area);
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const left = clamp((region.x * area.width - offsetX) / media.width);
+  const top = clamp((region.y * area.height - offsetY) / media.height);
+  const right = clamp(((region.x + region.width) * area.width - offsetX) / media.width);
+  const bottom = clamp(((region.y + region.height) * area.height - offsetY) / media.height);
+
+  const zoomBy = (factor: number) =>
+    setViewport((prev) =>
+      zoomAt(prev, factor, [area.width / 2, area.height / 2], area),
+    );
+
+  const moveTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const u = (offsetX + ((e.clientX - rect.left) / rect.width) * media.width) / area.width;
+    const v = (offsetY + ((e.clientY - rect.top) / rect.height) * media.height) / area.height;
+    setViewport((prev) => centerOn(prev, [u, v], area));
+  };
+
+  return (
+    <div className="absolute right-4 bottom-4 z-10 flex flex-col items-end gap-2 text-sm">
+      {viewport.zoom > 1 && media.width > 0 && (
+        <div
+          className="relative border border-[var(--border-color)] bg-[var(--bg-color)] shadow cursor-pointer touch-none"
+          style={{
+            width: minimapWidth,
+            height: (minimapWidth * media.height) / media.width,
+          }}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            moveTo(e);
+          }}
+          onPointerMove={(e) => {
+            if (e.buttons) moveTo(e);
+          }}
+        >
+          {!stream && imageSrc && (
+            <img
+              src={imageSrc}
+              className="absolute inset-0 w-full h-full object-fill pointer-events-none"
+              alt=""
+            />
+          )}
+          <div
+            className="absolute border-2 border-[#3B68FF] pointer-events-none"
+            style={{
+              left: `${left * 100}%`,
+              top: `${top * 100}%`,
+              width: `${(right - left) * 100}%`,
+              height: `${(bottom - top) * 100}%`,
+            }}
+          />
+        </div>
+      )}
+      <div className="flex items-center gap-1 bg-[var(--bg-color)] rounded shadow">
+        <button
+          className="secondary px-2"
+          title="Zoom out"
+          onClick={() => zoomBy(1 / 1.5)}
+        >
+          −
+        </button>
+        <div className="w-12 text-center">{Math.round(viewport.zoom * 100)}%</div>
+        <button className="secondary px-2" title="Zoom in" onClick={() => zoomBy(1.5)}>
+          +
+        </button>
+        <button
+          className="secondary"
+          title="Fit the image to the view"
+          disabled={viewport.zoom === 1}
+          onClick={() => setViewport(fitViewport)}
+        >
+          Fit
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -16,27 +16,107 @@ import { atom } from "jotai";
 import { atomWithStorage } from "jotai/utils";
 import {
   colors,
+  defaultBackend,
   defaultPromptParts,
   defaultPrompts,
   imageOptions,
   modelOptions,
+  relationTypes,
 } from "./consts";
-import { BoundingBox2DType, BoundingBox3DType, DetectTypes } from "./Types";
+import {
+  BackendName,
+  BoundingBox2DType,
+  BoundingBox3DType,
+  DetectTypes,
+  RelationType,
+  RequestState,
+  SegmentationMaskType,
+} from "./Types";
+import { RejectedEntry } from "./schemas";
+import { evaluateDetections } from "./groundTruth";
+import { Command, Update } from "./history";
+import { TrackerState, updateTracks } from "./tracker";
+import { BatchItem } from "./batch";
+import { DetectionConfig } from "./detection";
+import { CompareConfig, Comparison } from "./comparison";
+import { Viewport, fitViewport } from "./viewport";
+import { TilingConfig } from "./tiling";
+import { Roi } from "./roi";
+import { classifyStrokes } from "./strokes";
+import { SceneGraph } from "./sceneGraph";
+import { ChatMessage } from "./chat";
+import {
+  Camera,
+  CameraExtrinsics,
+  CameraIntrinsics,
+  defaultExtrinsics,
+  intrinsicsFromFov,
+} from "./camera";
+import {
+  defaultItemLimits,
+  defaultLabel,
+  defaultPresets,
+  defaultTarget,
+} from "./promptPresets";
+import { CaptureSettings, defaultCaptureSettings } from "./capture";
 
 export const ImageSrcAtom = atom<string | null>(imageOptions[0]);
 
+export const ImageNameAtom = atom<string>(imageOptions[0]);
+
+// Natural pixel size of the image or video frame being shown.
+export const MediaDimensionsAtom = atom({ width: 1, height: 1 });
+
 export const ImageSentAtom = atom(false);
 
 export const BoundingBoxes2DAtom = atom<BoundingBox2DType[]>([]);
 
-export const PromptsAtom = atom<Record<DetectTypes, string[]>>({
-  ...defaultPromptParts,
-});
+// Prompt inputs are kept in local storage so they survive a reload.
+export const PromptsAtom = atomWithStorage<Record<DetectTypes, string[]>>(
+  "spatial.prompts",
+  { ...defaultPromptParts },
+  undefined,
+  { getOnInit: true },
+);
 export const CustomPromptsAtom = atom<Record<DetectTypes, string>>({
   ...defaultPrompts,
 });
 
+// Inputs of the 2D bounding box prompt.
+export const TargetPromptAtom = atomWithStorage(
+  "spatial.targetPrompt",
+  defaultTarget,
+  undefined,
+  { getOnInit: true },
+);
+export const LabelPromptAtom = atomWithStorage(
+  "spatial.labelPrompt",
+  defaultLabel,
+  undefined,
+  { getOnInit: true },
+);
+
+export const ItemLimitsAtom = atomWithStorage(
+  "spatial.itemLimits",
+  defaultItemLimits,
+  undefined,
+  { getOnInit: true },
+);
+
+export const PromptPresetsAtom = atomWithStorage(
+  "spatial.promptPresets",
+  defaultPresets,
+  undefined,
+  { getOnInit: true },
+);
+
+// The preset last applied or saved for each detect type.
+export const ActivePresetsAtom = atomWithStorage<
+  Partial<Record<DetectTypes, string>>
+>("spatial.activePresets", {}, undefined, { getOnInit: true });
+
 export type PointingType = {
+  id: string;
   point: {
     x: number;
     y: number;
@@ -48,31 +128,241 @@ export const RevealOnHoverModeAtom = atom<boolean>(true);
 
 export const FOVAtom = atom<number>(60);
 
+// Explicit intrinsics; null derives them from the FOV.
+export const CameraIntrinsicsAtom = atom<CameraIntrinsics | null>(null);
+export const CameraExtrinsicsAtom = atom<CameraExtrinsics>(defaultExtrinsics);
+
+export const CameraAtom = atom<Camera>((get) => {
+  const { width, height } = get(MediaDimensionsAtom);
+  return {
+    intrinsics:
+      get(CameraIntrinsicsAtom) ?? intrinsicsFromFov(get(FOVAtom), width, height),
+    extrinsics: get(CameraExtrinsicsAtom),
+  };
+});
+
+export const ShowSceneViewAtom = atom(false);
+
+export const ShowSceneGraphAtom = atom(false);
+
+export const SceneGraphAtom = atom<SceneGraph | null>(null);
+
+export const SceneGraphRequestAtom = atom<RequestState>({ status: "idle" });
+
+// ID of the detection picked in the item list or the scene graph, shown with
+// its relations.
+export const SelectedInstanceAtom = atom<string | null>(null);
+
+export const ShowChatAtom = atom(false);
+
+export const ChatMessagesAtom = atom<ChatMessage[]>([]);
+
+export const ChatRequestAtom = atom<RequestState>({ status: "idle" });
+
+// Index of the answer whose boxes and points are drawn; null draws the latest
+// answer that has any.
+export const ChatShownAtom = atom<number | null>(null);
+
+// Relation types shown in the diagram and over the image.
+export const RelationFilterAtom = atom<Record<RelationType, boolean>>(
+  Object.fromEntries(relationTypes.map((type) => [type, true])) as Record<
+    RelationType,
+    boolean
+  >,
+);
+
+// Zoom and pan of the image and its overlays.
+export const ViewportAtom = atom<Viewport>(fitViewport);
+
 export const BoundingBoxes3DAtom = atom<BoundingBox3DType[]>([]);
 
 export const PointsAtom = atom<PointingType[]>([]);
 
+export const GroundTruthAtom = atom<BoundingBox2DType[]>([]);
+
+export const ShowGroundTruthAtom = atom(true);
+
+export const EvaluationAtom = atom((get) => {
+  const truths = get(GroundTruthAtom);
+  return truths.length > 0
+    ? evaluateDetections(get(BoundingBoxes2DAtom), truths)
+    : null;
+});
+
+export const SegmentationMasksAtom = atom<SegmentationMaskType[]>([]);
+
+export const RejectedEntriesAtom = atom<RejectedEntry[]>([]);
+
+export const DetectionRequestAtom = atom<RequestState>({ status: "idle" });
+
+export const SceneContextRequestAtom = atom<RequestState>({ status: "idle" });
+
 // export const PromptAtom = atom<string>("main objects");
 
 export const TemperatureAtom = atom<number>(0.5);
 
+// Scaling and encoding of the frames sent to the model.
+export const CaptureSettingsAtom = atomWithStorage(
+  "spatial.capture",
+  defaultCaptureSettings,
+  undefined,
+  { getOnInit: true },
+);
+
+// Splits still images into overlapping full-resolution tiles for detection.
+export const TilingAtom = atom<TilingConfig>({
+  enabled: false,
+  // Matches the capture size so tiles are not scaled down before sending.
+  tileSize: defaultCaptureSettings.maxSize,
+  overlap: 0.2,
+});
+
 export const ShareStream = atom<MediaStream | null>(null);
 
+export const TrackingAtom = atom(true);
+
+export const ShowTrailsAtom = atom(false);
+
+export const TracksAtom = atom<TrackerState>({ tracks: [], nextId: 1 });
+
+// Feeds one frame of detections through the tracker and returns the boxes to
+// show, each tagged with its track ID.
+export const TrackDetectionsAtom = atom(
+  null,
+  (get, set, detections: BoundingBox2DType[]) => {
+    const state = updateTracks(get(TracksAtom), detections);
+    set(TracksAtom, state);
+    return state.tracks.map(({ box }) => box);
+  },
+);
+
+export const ShowHistoryAtom = atom(false);
+
+export const ShowBatchAtom = atom(false);
+
+export const BatchItemsAtom = atom<BatchItem[]>([]);
+
+// A cleared batch image still open in the main view. Its object URL is revoked
+// once another image replaces it.
+export const ReleasedImageUrlAtom = atom<string | null>(null);
+
+// Settings captured when the batch was started, so editing the prompt while it
+// runs doesn't mix results from different prompts.
+export const BatchConfigAtom = atom<
+  (DetectionConfig & { backend: BackendName; capture: CaptureSettings }) | null
+>(null);
+
+export const BatchRunningAtom = atom(false);
+
+export const BatchConcurrencyAtom = atom(3);
+
+export const CompareModeAtom = atom(false);
+
+export const CompareConfigsAtom = atom<CompareConfig[]>([
+  { backend: defaultBackend, model: modelOptions[0], temperature: 0.5 },
+  {
+    backend: defaultBackend,
+    model: modelOptions[1] ?? modelOptions[0],
+    temperature: 0.5,
+  },
+]);
+
+export const ComparisonAtom = atom<Comparison | null>(null);
+
+export const CompareViewAtom = atom<"panes" | "overlay">("panes");
+
+// Bumped whenever a run is written to or removed from the run history.
+export const RunHistoryRevisionAtom = atom(0);
+
+export const UndoStackAtom = atom<Command[]>([]);
+
+export const RedoStackAtom = atom<Command[]>([]);
+
+const historyLimit = 100;
+
+// Records a command whose changes have already been applied, e.g. at the end
+// of a drag that updated an atom live.
+export const RecordCommandAtom = atom(null, (_get, set, command: Command) => {
+  if (command.changes.length === 0) return;
+  set(UndoStackAtom, (prev) => [...prev, command].slice(-historyLimit));
+  set(RedoStackAtom, []);
+});
+
+// Applies updates as a single undoable step. Pass skipHistory for changes that
+// replace each other too quickly to be worth undoing, such as live frames.
+export const CommitAtom = atom(
+  null,
+  (
+    get,
+    set,
+    {
+      label,
+      updates,
+      skipHistory = false,
+    }: { label: string; updates: Update[]; skipHistory?: boolean },
+  ) => {
+    const changes = updates.map((update) => update(get));
+    changes.forEach(({ redo }) => redo(set));
+    if (!skipHistory) {
+      set(RecordCommandAtom, { label, changes });
+    }
+  },
+);
+
+export const UndoAtom = atom(null, (get, set) => {
+  const stack = get(UndoStackAtom);
+  const command = stack[stack.length - 1];
+  if (!command) return;
+  [...command.changes].reverse().forEach(({ undo }) => undo(set));
+  set(UndoStackAtom, (prev) => prev.slice(0, -1));
+  set(RedoStackAtom, (prev) => [...prev, command]);
+});
+
+export const RedoAtom = atom(null, (get, set) => {
+  const stack = get(RedoStackAtom);
+  const command = stack[stack.length - 1];
+  if (!command) return;
+  command.changes.forEach(({ redo }) => redo(set));
+  set(RedoStackAtom, (prev) => prev.slice(0, -1));
+  set(UndoStackAtom, (prev) => [...prev, command]);
+});
+
+export const ClearHistoryAtom = atom(null, (_get, set) => {
+  set(UndoStackAtom, []);
+  set(RedoStackAtom, []);
+});
+
 export const DrawModeAtom = atom<boolean>(false);
 
+export const EditModeAtom = atom<boolean>(false);
+
+// Dragging on the image adds a region of interest.
+export const RoiModeAtom = atom<boolean>(false);
+
+// Kept across images and live frames, so a fixed camera keeps its regions.
+export const RoisAtom = atom<Roi[]>([]);
+
 export const DetectTypeAtom = atom<DetectTypes>("2D bounding boxes");
 
 export const ModelSelectedAtom = atom<string>(modelOptions[0]);
 
+export const BackendAtom = atom<BackendName>(defaultBackend);
+
 export const LinesAtom = atom<[[number, number][], string][]>([]);
 
+// What each stroke on the image appears to mark, for prompts and highlights.
+export const StrokeAnnotationsAtom = atom((get) =>
+  classifyStrokes(get(LinesAtom), get(MediaDimensionsAtom)),
+);
+
 export const JsonModeAtom = atom(false);
 
 export const ActiveColorAtom = atom(colors[6]);
 
 export const HoverEnteredAtom = atom(false);
 
-export const HoveredBoxAtom = atom<number | null>(null);
+// ID of the detection under the pointer, on the image or in the item list.
+export const HoveredBoxAtom = atom<string | null>(null);
 
 export const VideoRefAtom = atom<{ current: HTMLVideoElement | null }>({
   current: null,
@@ -0,0 +1,315 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  GenerationConfig,
+  GoogleGenerativeAI,
+  Part,
+  ResponseSchema,
+} from "@google/generative-ai";
+import { BackendName, DetectTypes } from "./Types";
+import { relationTypes } from "./consts";
+import { sceneGraphSchema } from "./schemas";
+import { splitDataURL } from "./utils";
+
+// Every backend returns the raw model text. Parsing is shared by the callers so
+// that all providers go through the same fence stripping and validation.
+
+export type DetectRequest = {
+  model: string;
+  prompt: string;
+  // Data URL of the captured frame, with any drawn lines burned in.
+  image: string;
+  detectType: DetectTypes;
+  temperature: number;
+  // Constrains the output to JSON of this shape where the provider supports it.
+  responseSchema?: ResponseSchema;
+};
+
+export type SceneContextRequest = {
+  model: string;
+  prompt: string;
+  image: string;
+};
+
+export type SceneGraphRequest = {
+  model: string;
+  prompt: string;
+  image: string;
+  // Labels of the numbered objects the prompt lists.
+  objects: string[];
+};
+
+export type ChatTurn = {
+  role: "user" | "model";
+  text: string;
+};
+
+export type ChatRequest = {
+  model: string;
+  // Describes the image and its detections; sent ahead of every turn.
+  system: string;
+  // Sent with the first turn, so each request is complete on its own.
+  image: string;
+  turns: ChatTurn[];
+  // Labels of the numbered objects the system prompt lists.
+  objects: string[];
+};
+
+export type DetectionBackend = {
+  detect: (request: DetectRequest) => Promise<string>;
+  sceneContext: (request: SceneContextRequest) => Promise<string>;
+  sceneGraph: (request: SceneGraphRequest) => Promise<string>;
+  chat: (request: ChatRequest) => Promise<string>;
+};
+
+function createGeminiBackend(apiKey: string): DetectionBackend {
+  const client = new GoogleGenerativeAI(apiKey);
+
+  async function generate(
+    model: string,
+    parts: Part[],
+    generationConfig?: GenerationConfig,
+  ) {
+    const result = await client
+      .getGenerativeModel({ model }, { apiVersion: "v1beta" })
+      .generateContent({
+        contents: [{ role: "user", parts }],
+        generationConfig,
+      });
+    return result.response.text();
+  }
+
+  function imagePart(image: string): Part {
+    const { mimeType, data } = splitDataURL(image);
+    return { inlineData: { data, mimeType } };
+  }
+
+  return {
+    detect: ({ model, prompt, image, temperature, responseSchema }) =>
+      generate(
+        model,
+        [{ text: prompt }, imagePart(image)],
+        responseSchema
+          ? { temperature, responseMimeType: "application/json", responseSchema }
+          : { temperature },
+      ),
+    sceneContext: ({ model, prompt, image }) =>
+      generate(model, [{ text: prompt }, imagePart(image)]),
+    sceneGraph: ({ model, prompt, image }) =>
+      generate(model, [{ text: prompt }, imagePart(image)], {
+        responseMimeType: "application/json",
+        responseSchema: sceneGraphSchema,
+      }),
+    chat: async ({ model, system, image, turns }) => {
+      const result = await client
+        .getGenerativeModel({ model }, { apiVersion: "v1beta" })
+        .generateContent({
+          systemInstruction: system,
+          contents: turns.map(({ role, text }, i) => ({
+            role,
+            parts: i === 0 ? [imagePart(image), { text }] : [{ text }],
+          })),
+        });
+      return result.response.text();
+    },
+  };
+}
+
+// Speaks the OpenAI chat completions protocol, which most self-hosted
+// inference servers (vLLM, Ollama, LM Studio, ...) expose.
+function createHttpBackend({
+  baseUrl,
+  apiKey,
+  model: modelOverride,
+}: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}): DetectionBackend {
+  const userContent = (text: string, image?: string) =>
+    image
+      ? [
+          { type: "text", text },
+          { type: "image_url", image_url: { url: image } },
+        ]
+      : text;
+
+  async function send(
+    model: string,
+    messages: { role: string; content: unknown }[],
+    temperature?: number,
+    responseSchema?: ResponseSchema,
+  ) {
+    if (!baseUrl) {
+      throw new Error("VITE_HTTP_BACKEND_URL is not set");
+    }
+    const response = await fetch(
+      `${baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: modelOverride || model.replace(/^models\//, ""),
+          messages,
+          temperature,
+          response_format: responseSchema
+            ? {
+                type: "json_schema",
+                json_schema: { name: "detections", schema: responseSchema },
+              }
+            : undefined,
+        }),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(
+        `${response.status} ${response.statusText}: ${await response.text()}`,
+      );
+    }
+    const json = await response.json();
+    return (json.choices?.[0]?.message?.content as string | undefined) ?? "";
+  }
+
+  function complete(
+    model: string,
+    prompt: string,
+    image?: string,
+    temperature?: number,
+    responseSchema?: ResponseSchema,
+  ) {
+    return send(
+      model,
+      [{ role: "user", content: userContent(prompt, image) }],
+      temperature,
+      responseSchema,
+    );
+  }
+
+  return {
+    detect: ({ model, prompt, image, temperature, responseSchema }) =>
+      complete(model, prompt, image, temperature, responseSchema),
+    sceneContext: ({ model, prompt, image }) => complete(model, prompt, image),
+    sceneGraph: ({ model, prompt, image }) =>
+      complete(model, prompt, image, undefined, sceneGraphSchema),
+    chat: ({ model, system, image, turns }) =>
+      send(model, [
+        { role: "system", content: system },
+        ...turns.map(({ role, text }, i) => ({
+          role: role === "model" ? "assistant" : "user",
+          content: i === 0 ? userContent(text, image) : text,
+        })),
+      ]),
+  };
+}
+
+const mockDetections: Record<
+  Exclude<DetectTypes, "Segmentation masks">,
+  object[]
+> = {
+  "2D bounding boxes": [
+    { box_2d: [120, 80, 480, 360], label: "coffee mug" },
+    { box_2d: [150, 420, 620, 700], label: "notebook" },
+    { box_2d: [540, 120, 900, 460], label: "houseplant" },
+    { box_2d: [610, 640, 860, 920], label: "pair of scissors" },
+  ],
+  Points: [
+    { point: [300, 220], label: "coffee mug" },
+    { point: [385, 560], label: "notebook" },
+    { point: [720, 290], label: "houseplant" },
+    { point: [735, 780], label: "pair of scissors" },
+  ],
+  "3D bounding boxes": [
+    { box_3d: [-0.2, 1.2, -0.15, 0.12, 0.12, 0.14, 0, 0, 15], label: "coffee mug" },
+    { box_3d: [0.15, 1.4, -0.25, 0.3, 0.22, 0.03, 0, 0, -10], label: "notebook" },
+  ],
+};
+
+// Masks are generated rather than inlined: a filled ellipse covering the box.
+function ellipseMask() {
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = 64;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "black";
+  ctx.fillRect(0, 0, 64, 64);
+  ctx.fillStyle = "white";
+  ctx.beginPath();
+  ctx.ellipse(32, 32, 28, 24, 0, 0, Math.PI * 2);
+  ctx.fill();
+  return canvas.toDataURL("image/png");
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Returns the same canned payloads for every request so the app can be
+// developed and demoed offline. Output is fenced like a real model response.
+function createMockBackend(): DetectionBackend {
+  const fence = (value: unknown) =>
+    "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+  return {
+    detect: async ({ detectType }) => {
+      await delay(400);
+      if (detectType === "Segmentation masks") {
+        const mask = ellipseMask();
+        return fence(
+          mockDetections["2D bounding boxes"].map((box) => ({ ...box, mask })),
+        );
+      }
+      return fence(mockDetections[detectType]);
+    },
+    sceneContext: async () => {
+      await delay(250);
+      return fence({
+        scene: "A tidy desk with stationery and a plant.",
+        task: "Someone is settling in to take notes over coffee.",
+      });
+    },
+    sceneGraph: async ({ objects }) => {
+      await delay(250);
+      // Chains each object to the next, cycling through the relation types.
+      return fence(
+        objects.slice(1).map((_, i) => ({
+          subject: i + 1,
+          relation: relationTypes[i % relationTypes.length],
+          object: i,
+          description: `${relationTypes[i % relationTypes.length]} ${objects[i]}`,
+        })),
+      );
+    },
+    chat: async ({ turns, objects }) => {
+      await delay(400);
+      // Refers to the first object, if any, and marks the middle of the image.
+      const reference = objects.length
+        ? `The [${objects[0]}](#0) is the first thing I listed. `
+        : "";
+      return `${reference}You asked: "${turns[turns.length - 1].text}". Here is the middle of the image.\n\n${fence([{ point: [500, 500], label: "middle" }])}`;
+    },
+  };
+}
+
+export const backends: Record<BackendName, DetectionBackend> = {
+  gemini: createGeminiBackend(import.meta.env.VITE_GEMINI_API_KEY),
+  http: createHttpBackend({
+    baseUrl: import.meta.env.VITE_HTTP_BACKEND_URL,
+    apiKey: import.meta.env.VITE_HTTP_BACKEND_KEY,
+    model: import.meta.env.VITE_HTTP_BACKEND_MODEL,
+  }),
+  mock: createMockBackend(),
+};
@@ -0,0 +1,78 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { CaptureSettings, drawScaled, encodeCanvas } from "./capture";
+import { DetectionBackend } from "./backends";
+import { DetectionConfig, DetectionOutput, runDetection } from "./detection";
+import { ExportImage } from "./exporters";
+import { DetectTypes } from "./Types";
+import { loadImage } from "./utils";
+
+export type BatchStatus = "queued" | "running" | "done" | "failed";
+
+export type BatchItem = {
+  id: string;
+  name: string;
+  // Object URL of the original file.
+  src: string;
+  status: BatchStatus;
+  error?: string;
+  width?: number;
+  height?: number;
+  detectType?: DetectTypes;
+  output?: DetectionOutput;
+};
+
+export function createBatchItems(files: File[]): BatchItem[] {
+  return files
+    .filter((file) => file.type.startsWith("image/"))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((file) => ({
+      id: crypto.randomUUID(),
+      // Folder picks carry the path inside the folder.
+      name: file.webkitRelativePath || file.name,
+      src: URL.createObjectURL(file),
+      status: "queued",
+    }));
+}
+
+export async function processBatchItem(
+  item: BatchItem,
+  backend: DetectionBackend,
+  config: DetectionConfig,
+  capture: CaptureSettings,
+): Promise<Pick<BatchItem, "width" | "height" | "detectType" | "output">> {
+  const image = await loadImage(item.src);
+  const dataURL = await encodeCanvas(drawScaled(image, capture.maxSize), capture);
+  const output = await runDetection(backend, config, dataURL);
+  return {
+    width: image.width,
+    height: image.height,
+    detectType: config.detectType,
+    output,
+  };
+}
+
+export function toExportImage(item: BatchItem): ExportImage {
+  const { boxes2D, points, boxes3D, masks } = item.output!.results;
+  return {
+    fileName: item.name,
+    width: item.width!,
+    height: item.height!,
+    boxes2D,
+    points,
+    boxes3D,
+    masks,
+  };
+}
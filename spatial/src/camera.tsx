@@ -0,0 +1,245 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { BoundingBox3DType } from "./Types";
+
+export type Vec3 = [number, number, number];
+type Matrix3 = [Vec3, Vec3, Vec3];
+
+// Pinhole intrinsics in pixels of the source image.
+export type CameraIntrinsics = {
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+};
+
+// Where the camera sits in the world, which has x to the right, y forward and
+// z up with the ground at z = 0.
+export type CameraExtrinsics = {
+  // Degrees from looking straight down; 90 looks straight ahead.
+  tilt: number;
+  // Degrees, around the viewing axis.
+  roll: number;
+  // World units above the ground.
+  height: number;
+};
+
+export type Camera = {
+  intrinsics: CameraIntrinsics;
+  extrinsics: CameraExtrinsics;
+};
+
+export const defaultExtrinsics: CameraExtrinsics = {
+  tilt: 90,
+  roll: 0,
+  height: 0,
+};
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const multiply = (m: Matrix3, v: Vec3): Vec3 => [dot(m[0], v), dot(m[1], v), dot(m[2], v)];
+
+const transpose = (m: Matrix3): Matrix3 => [
+  [m[0][0], m[1][0], m[2][0]],
+  [m[0][1], m[1][1], m[2][1]],
+  [m[0][2], m[1][2], m[2][2]],
+];
+
+// Square pixels and a centered principal point.
+export function intrinsicsFromFov(
+  fov: number,
+  width: number,
+  height: number,
+): CameraIntrinsics {
+  const f = width / (2 * Math.tan(radians(fov) / 2));
+  return { fx: f, fy: f, cx: width / 2, cy: height / 2 };
+}
+
+// World to camera rotation: tilt around x, then roll around the viewing axis.
+function cameraRotation({ tilt, roll }: CameraExtrinsics): Matrix3 {
+  const [st, ct] = [Math.sin(radians(tilt)), Math.cos(radians(tilt))];
+  const [sr, cr] = [Math.sin(radians(roll)), Math.cos(radians(roll))];
+  // Rows are the camera's right, down and forward axes in the world.
+  const tiltMatrix: Matrix3 = [
+    [1, 0, 0],
+    [0, -ct, -st],
+    [0, st, -ct],
+  ];
+  const rollMatrix: Matrix3 = [
+    [cr, -sr, 0],
+    [sr, cr, 0],
+    [0, 0, 1],
+  ];
+  // Row i of roll * tilt is tilt transposed times row i of roll.
+  const columns = transpose(tiltMatrix);
+  return rollMatrix.map((row) => multiply(columns, row)) as Matrix3;
+}
+
+export function cameraPosition({ height }: CameraExtrinsics): Vec3 {
+  return [0, 0, height];
+}
+
+export function toCameraFrame(extrinsics: CameraExtrinsics, point: Vec3): Vec3 {
+  const [x, y, z] = cameraPosition(extrinsics);
+  return multiply(cameraRotation(extrinsics), [
+    point[0] - x,
+    point[1] - y,
+    point[2] - z,
+  ]);
+}
+
+export function toWorldFrame(extrinsics: CameraExtrinsics, point: Vec3): Vec3 {
+  const [x, y, z] = multiply(transpose(cameraRotation(extrinsics)), point);
+  const position = cameraPosition(extrinsics);
+  return [x + position[0], y + position[1], z + position[2]];
+}
+
+// Pixel coordinates of a point in the camera frame. Only meaningful for
+// points in front of the camera.
+export function projectToImage(
+  { fx, fy, cx, cy }: CameraIntrinsics,
+  [x, y, z]: Vec3,
+): [number, number] {
+  return [(fx * x) / z + cx, (fy * y) / z + cy];
+}
+
+// The ray through a pixel, in the camera frame, at unit depth.
+export function unprojectPixel(
+  { fx, fy, cx, cy }: CameraIntrinsics,
+  u: number,
+  v: number,
+): Vec3 {
+  return [(u - cx) / fx, (v - cy) / fy, 1];
+}
+
+// The eight world space corners of a box: the top face first, then the bottom
+// face in the same winding.
+export function boxCorners({ center, size, rpy }: BoundingBox3DType): Vec3[] {
+  const [sr, sp, sy] = rpy.map((x) => Math.sin(x / 2));
+  const [cr, cp, cz] = rpy.map((x) => Math.cos(x / 2));
+  const q = [
+    sr * cp * cz - cr * sp * sy,
+    cr * sp * cz + sr * cp * sy,
+    cr * cp * sy - sr * sp * cz,
+    cr * cp * cz + sr * sp * sy,
+  ];
+  const rotation: Matrix3 = [
+    [
+      1 - 2 * q[1] ** 2 - 2 * q[2] ** 2,
+      2 * q[0] * q[1] - 2 * q[3] * q[2],
+      2 * q[0] * q[2] + 2 * q[3] * q[1],
+    ],
+    [
+      2 * q[0] * q[1] + 2 * q[3] * q[2],
+      1 - 2 * q[0] ** 2 - 2 * q[2] ** 2,
+      2 * q[1] * q[2] - 2 * q[3] * q[0],
+    ],
+    [
+      2 * q[0] * q[2] - 2 * q[3] * q[1],
+      2 * q[1] * q[2] + 2 * q[3] * q[0],
+      1 - 2 * q[0] ** 2 - 2 * q[1] ** 2,
+    ],
+  ];
+
+  const [hx, hy, hz] = size.map((s) => s / 2);
+  const corners: Vec3[] = [
+    [-hx, -hy, hz],
+    [-hx, hy, hz],
+    [hx, hy, hz],
+    [hx, -hy, hz],
+    [-hx, -hy, -hz],
+    [-hx, hy, -hz],
+    [hx, hy, -hz],
+    [hx, -hy, -hz],
+  ];
+  return corners.map((corner) => {
+    const [x, y, z] = multiply(rotation, corner);
+    return [x + center[0], y + center[1], z + center[2]];
+  });
+}
+
+// Corner index pairs for the twelve edges of a box from boxCorners.
+export const boxEdges: [number, number][] = [0, 1, 2, 3].flatMap((i) => [
+  [i, (i + 1) % 4],
+  [i + 4, ((i + 1) % 4) + 4],
+  [i, i + 4],
+] as [number, number][]);
+
+// Corner indices of the six faces of a box from boxCorners, top and bottom
+// first, each going around the face.
+export const boxFaces: number[][] = [
+  [0, 1, 2, 3],
+  [4, 5, 6, 7],
+  ...[0, 1, 2, 3].map((i) => [i, (i + 1) % 4, ((i + 1) % 4) + 4, i + 4]),
+];
+
+// The two faces that meet at each edge in boxEdges.
+export const edgeFaces: number[][] = boxEdges.map(([a, b]) =>
+  boxFaces.flatMap((face, i) => (face.includes(a) && face.includes(b) ? [i] : [])),
+);
+
+const average = (points: Vec3[]): Vec3 =>
+  [0, 1, 2].map(
+    (i) => points.reduce((sum, point) => sum + point[i], 0) / points.length,
+  ) as Vec3;
+
+// Whether the outside of a convex solid's face is turned towards a camera at
+// the origin, given the face and the solid's center in the camera frame.
+export function facesCamera(face: Vec3[], center: Vec3) {
+  const faceCenter = average(face);
+  const outward: Vec3 = [
+    faceCenter[0] - center[0],
+    faceCenter[1] - center[1],
+    faceCenter[2] - center[2],
+  ];
+  return dot(outward, faceCenter) < 0;
+}
+
+const cutAtNear = (a: Vec3, b: Vec3, near: number): Vec3 => {
+  const t = (near - a[2]) / (b[2] - a[2]);
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, near];
+};
+
+// Cuts a camera frame segment to the part in front of the near plane, or
+// returns null when it is entirely behind it.
+export function clipSegment(
+  start: Vec3,
+  end: Vec3,
+  near: number,
+): [Vec3, Vec3] | null {
+  const startInFront = start[2] >= near;
+  const endInFront = end[2] >= near;
+  if (startInFront && endInFront) return [start, end];
+  if (!startInFront && !endInFront) return null;
+  const cut = cutAtNear(start, end, near);
+  return startInFront ? [start, cut] : [cut, end];
+}
+
+// Cuts a camera frame polygon to the part in front of the near plane; empty
+// when it is entirely behind it.
+export function clipPolygon(points: Vec3[], near: number): Vec3[] {
+  const clipped: Vec3[] = [];
+  points.forEach((point, i) => {
+    const previous = points[(i + points.length - 1) % points.length];
+    const inFront = point[2] >= near;
+    if (inFront !== previous[2] >= near) {
+      clipped.push(cutAtNear(previous, point, near));
+    }
+    if (inFront) clipped.push(point);
+  });
+  return clipped;
+}
@@ -0,0 +1,152 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { EncodeRequest, EncodeResponse } from "./encodeWorker";
+import { Rect } from "./geometry";
+
+// Longest side, in pixels, of the images sent to the model.
+export const maxCaptureSize = 640;
+
+export type CaptureFormat = "image/png" | "image/jpeg" | "image/webp";
+
+export const captureFormats: { format: CaptureFormat; name: string }[] = [
+  { format: "image/png", name: "PNG" },
+  { format: "image/jpeg", name: "JPEG" },
+  { format: "image/webp", name: "WebP" },
+];
+
+// How frames are scaled and encoded before they are sent to the model.
+export type CaptureSettings = {
+  maxSize: number;
+  format: CaptureFormat;
+  // 0 to 1; ignored by PNG.
+  quality: number;
+};
+
+export const defaultCaptureSettings: CaptureSettings = {
+  maxSize: maxCaptureSize,
+  format: "image/png",
+  quality: 0.85,
+};
+
+export const clampCaptureSize = (size: number) =>
+  Math.min(4096, Math.max(128, Math.round(size) || maxCaptureSize));
+
+// Draws an image or the current video frame into a new canvas, scaled so its
+// longest side is `maxSize`.
+export function drawScaled(
+  source: HTMLImageElement | HTMLVideoElement,
+  maxSize = maxCaptureSize,
+) {
+  const isVideo = source instanceof HTMLVideoElement;
+  const width = isVideo ? source.videoWidth : source.width;
+  const height = isVideo ? source.videoHeight : source.height;
+  const scale = Math.min(maxSize / width, maxSize / height);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  canvas.getContext("2d")!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Draws a region of a canvas into a new canvas, scaled down so its longest
+// side is at most `maxSize`.
+export function drawRegion(
+  source: HTMLCanvasElement,
+  region: Rect,
+  maxSize = maxCaptureSize,
+) {
+  const scale = Math.min(1, maxSize / region.width, maxSize / region.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(region.width * scale);
+  canvas.height = Math.round(region.height * scale);
+  canvas
+    .getContext("2d")!
+    .drawImage(
+      source,
+      region.x,
+      region.y,
+      region.width,
+      region.height,
+      0,
+      0,
+      canvas.width,
+      canvas.height,
+    );
+  return canvas;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<
+  number,
+  { resolve: (blob: Blob) => void; reject: (error: Error) => void }
+>();
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL("./encodeWorker.tsx", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (e: MessageEvent<EncodeResponse>) => {
+      const request = pending.get(e.data.id);
+      pending.delete(e.data.id);
+      if (!request) return;
+      if ("blob" in e.data) request.resolve(e.data.blob);
+      else request.reject(new Error(e.data.error));
+    };
+    // A worker that fails to load can't recover; start a new one next time.
+    worker.onerror = () => {
+      pending.forEach(({ reject }) => reject(new Error("Image encoder failed")));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function blobToDataURL(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Encodes a canvas as a data URL in a worker, so live analysis doesn't stall
+// the UI. Browsers without OffscreenCanvas encode on the main thread. Browsers
+// that can't write WebP fall back to PNG; the data URL carries the real type.
+export async function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  { format, quality }: Pick<CaptureSettings, "format" | "quality">,
+): Promise<string> {
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") {
+    return canvas.toDataURL(format, quality);
+  }
+  const bitmap = await createImageBitmap(canvas);
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const request: EncodeRequest = { id, bitmap, format, quality };
+    getWorker().postMessage(request, [bitmap]);
+  });
+  return blobToDataURL(blob);
+}
+
+// Bytes an encoded image adds to a request, where it is sent as base64 text.
+export const payloadBytes = (dataURL: string) =>
+  dataURL.length - dataURL.indexOf(",") - 1;
@@ -0,0 +1,140 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { PointingType } from "./atoms";
+import { ChatTurn } from "./backends";
+import { parseModelResponse } from "./parseResponse";
+import { RunResults } from "./runHistory";
+import { validateBoundingBoxes2D, validatePoints } from "./schemas";
+import { BoundingBox2DType, DetectTypes } from "./Types";
+
+// A detection as the chat's system prompt describes it.
+export type ChatObject = {
+  id: string;
+  label: string;
+  location: string;
+};
+
+// Answer text, split where it refers to a detection.
+export type ChatSegment = {
+  text: string;
+  // The referenced detection, if the reference could be resolved.
+  instanceId?: string;
+};
+
+export type ChatMessage = ChatTurn & {
+  segments: ChatSegment[];
+  // Drawn on the image by the model as part of its answer.
+  boxes: BoundingBox2DType[];
+  points: PointingType[];
+};
+
+const toThousandths = (value: number) => Math.round(value * 1000);
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function chatObjects(
+  detectType: DetectTypes,
+  { boxes2D, boxes3D, points, masks }: RunResults,
+): ChatObject[] {
+  const toObject = ({
+    id,
+    label,
+    x,
+    y,
+    width,
+    height,
+  }: BoundingBox2DType) => ({
+    id,
+    label,
+    location: `box [${toThousandths(y)}, ${toThousandths(x)}, ${toThousandths(y + height)}, ${toThousandths(x + width)}]`,
+  });
+  if (detectType === "2D bounding boxes") return boxes2D.map(toObject);
+  if (detectType === "Segmentation masks") return masks.map(toObject);
+  if (detectType === "Points") {
+    return points.map(({ id, label, point }) => ({
+      id,
+      label,
+      location: `point [${toThousandths(point.y)}, ${toThousandths(point.x)}]`,
+    }));
+  }
+  return boxes3D.map(({ id, label, center, size }) => ({
+    id,
+    label,
+    location: `3D box centered at [${center.map(round).join(", ")}] sized [${size.map(round).join(", ")}]`,
+  }));
+}
+
+export function getChatSystemPrompt(
+  objects: ChatObject[],
+  context: { scene: string; task: string } | null,
+) {
+  const listed = objects.length
+    ? objects
+        .map(({ label, location }, i) => `${i}: ${label}, ${location}`)
+        .join("\n")
+    : "(none yet)";
+  return `You are answering questions about the attached image. These objects were detected in it, numbered, with 2D boxes as [ymin, xmin, ymax, xmax] and points as [y, x], normalized to 0-1000:
+${listed}
+${context ? `\nThe scene: ${context.scene}\nThe likely task: ${context.task}\n` : ""}
+Answer briefly. Whenever you mention one of the numbered objects, write it as a link to its number, like [the red mug](#3). To show something that isn't in the list, end your answer with a JSON list in a \`\`\`json fence, where each entry has a "label" and either a "box_2d" as [ymin, xmin, ymax, xmax] or a "point" as [y, x], normalized to 0-1000.`;
+}
+
+export function userMessage(text: string): ChatMessage {
+  return { role: "user", text, segments: [{ text }], boxes: [], points: [] };
+}
+
+const referencePattern = /\[([^\]]+)\]\(#(\d+)\)/g;
+const fencePattern = /```(?:json)?\s*\n?([\s\S]*?)(?:```|$)/;
+
+// Splits out references to numbered objects, and boxes and points from a
+// trailing JSON block. Entries that don't validate are dropped, since the
+// prose still stands on its own.
+export function parseChatAnswer(
+  text: string,
+  objects: ChatObject[],
+): ChatMessage {
+  let prose = text;
+  let boxes: BoundingBox2DType[] = [];
+  let points: PointingType[] = [];
+  const fence = text.match(fencePattern);
+  if (fence) {
+    prose = text.replace(fence[0], "").trim();
+    try {
+      const { value } = parseModelResponse(fence[1]);
+      const entries: unknown[] = Array.isArray(value) ? value : [value];
+      const having = (key: string) =>
+        entries.filter(
+          (entry) => entry !== null && typeof entry === "object" && key in entry,
+        );
+      boxes = validateBoundingBoxes2D(having("box_2d")).valid;
+      points = validatePoints(having("point")).valid;
+    } catch (error) {
+      console.warn("Ignoring unreadable chat annotations:", error);
+    }
+  }
+
+  const segments: ChatSegment[] = [];
+  let last = 0;
+  for (const match of prose.matchAll(referencePattern)) {
+    if (match.index > last) segments.push({ text: prose.slice(last, match.index) });
+    segments.push({
+      text: match[1],
+      instanceId: objects[Number(match[2])]?.id,
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < prose.length) segments.push({ text: prose.slice(last) });
+
+  return { role: "model", text, segments, boxes, points };
+}
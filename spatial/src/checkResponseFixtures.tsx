@@ -0,0 +1,35 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+// Runs parseModelResponse over every response fixture and fails after listing
+// every mismatch. Run with `npm run check:fixtures`.
+
+import { parseModelResponse } from "./parseResponse";
+import { responseFixtures } from "./responseFixtures";
+
+const failures = responseFixtures.flatMap(({ name, text, expected, truncated }) => {
+  const parsed = parseModelResponse(text);
+  const wanted = { value: expected, truncated: truncated ?? false };
+  return JSON.stringify(parsed) === JSON.stringify(wanted)
+    ? []
+    : [`${name}: expected ${JSON.stringify(wanted)}, got ${JSON.stringify(parsed)}`];
+});
+
+if (failures.length) {
+  throw new Error(
+    `${failures.length} of ${responseFixtures.length} response fixtures failed:\n${failures.join("\n")}`,
+  );
+}
+console.log(`All ${responseFixtures.length} response fixtures parsed as expected.`);
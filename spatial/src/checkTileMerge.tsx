@@ -0,0 +1,99 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+// Maps a mask found in a tile and one found in a region of interest onto the
+// full image, and checks that their outlines land where their boxes do. Run
+// with `npm run check:tiles`.
+
+import { Rect } from "./geometry";
+import { cropRegions } from "./roi";
+import { emptyResults } from "./runHistory";
+import { mergeTileResults } from "./tiling";
+
+const image = { width: 1000, height: 800 };
+const tiles = cropRegions(image, [], { enabled: true, tileSize: 600, overlap: 0.2 });
+
+// A mask covering the middle fifth of its crop, outlined by a triangle.
+const maskIn = (region: Rect) => ({
+  region,
+  results: {
+    ...emptyResults,
+    masks: [
+      {
+        id: "mask",
+        x: 0.5,
+        y: 0.5,
+        width: 0.2,
+        height: 0.2,
+        label: "mug",
+        color: "red",
+        imageData: "",
+        polygons: [
+          [
+            [0.5, 0.5],
+            [0.7, 0.5],
+            [0.7, 0.7],
+          ] as [number, number][],
+        ],
+      },
+    ],
+  },
+});
+
+const cases: { name: string; region: Rect; expected: [number, number][] }[] = [
+  {
+    // The last of four 600px tiles with 20% overlap starts at (400, 200).
+    name: "mask in the bottom right tile",
+    region: tiles[tiles.length - 1].region,
+    expected: [
+      [0.7, 0.625],
+      [0.82, 0.625],
+      [0.82, 0.775],
+    ],
+  },
+  {
+    name: "mask in a region of interest",
+    region: cropRegions(
+      image,
+      [{ id: "roi", name: "shelf", active: true, x: 0.5, y: 0.25, width: 0.25, height: 0.5 }],
+      null,
+    )[0].region,
+    expected: [
+      [0.625, 0.5],
+      [0.675, 0.5],
+      [0.675, 0.6],
+    ],
+  },
+];
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+const failures = cases.flatMap(({ name, region, expected }) => {
+  const [mask] = mergeTileResults([maskIn(region)], image).masks;
+  const polygon = mask.polygons[0];
+  const matches =
+    polygon.length === expected.length &&
+    polygon.every(([x, y], i) => close(x, expected[i][0]) && close(y, expected[i][1])) &&
+    close(mask.x, expected[0][0]) &&
+    close(mask.y, expected[0][1]);
+  return matches
+    ? []
+    : [`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(polygon)}`];
+});
+
+if (failures.length) {
+  throw new Error(`${failures.length} of ${cases.length} tile merges failed:\n${failures.join("\n")}`);
+}
+console.log(`All ${cases.length} tile merges mapped masks as expected.`);
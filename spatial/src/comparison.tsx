@@ -0,0 +1,82 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { DetectionOutput, flattenResults } from "./detection";
+import { Rect, matchBoxes, sameLabel } from "./geometry";
+import { RunResults } from "./runHistory";
+import { BackendName, DetectTypes } from "./Types";
+
+export type CompareConfig = {
+  backend: BackendName;
+  model: string;
+  temperature: number;
+};
+
+export type CompareRun = {
+  config: CompareConfig;
+  status: "waiting" | "done" | "failed";
+  error?: string;
+  output?: DetectionOutput;
+};
+
+export type Comparison = {
+  // The frame every model was sent.
+  image: string;
+  detectType: DetectTypes;
+  runs: CompareRun[];
+};
+
+export type Agreement = {
+  // Jaccard index of the two label sets.
+  labelOverlap: number;
+  // Share of boxes on either side with a same-label partner at IoU >= 0.5,
+  // or null when the detect type has no 2D boxes.
+  boxAgreement: number | null;
+  meanIoU: number | null;
+};
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+function boxesOf(results: RunResults): (Rect & { label: string })[] | null {
+  if (results.boxes2D.length || results.masks.length) {
+    return [...results.boxes2D, ...results.masks];
+  }
+  return results.points.length || results.boxes3D.length ? null : [];
+}
+
+export function compareResults(a: RunResults, b: RunResults): Agreement {
+  const labelsA = new Set(flattenResults(a).map(({ label }) => normalizeLabel(label)));
+  const labelsB = new Set(flattenResults(b).map(({ label }) => normalizeLabel(label)));
+  const shared = [...labelsA].filter((label) => labelsB.has(label)).length;
+  const union = new Set([...labelsA, ...labelsB]).size;
+
+  const boxesA = boxesOf(a);
+  const boxesB = boxesOf(b);
+  let boxAgreement = null;
+  let meanIoU = null;
+  if (boxesA && boxesB) {
+    const { matches } = matchBoxes(boxesA, boxesB, 0.5, sameLabel);
+    const total = boxesA.length + boxesB.length;
+    boxAgreement = total > 0 ? (2 * matches.length) / total : 1;
+    meanIoU = matches.length
+      ? matches.reduce((sum, { iou }) => sum + iou, 0) / matches.length
+      : 0;
+  }
+
+  return {
+    labelOverlap: union > 0 ? shared / union : 1,
+    boxAgreement,
+    meanIoU,
+  };
+}
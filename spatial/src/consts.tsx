@@ -12,6 +12,8 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { BackendName, RelationType } from "./Types";
+
 export const colors = [
   "rgb(0, 0, 0)",
   "rgb(255, 255, 255)",
@@ -28,6 +30,37 @@ export const modelOptions = [
   "models/gemini-1.5-flash",
 ];
 
+// Colors for mask overlays, skipping black and white.
+export const maskColors = colors.slice(2);
+
+// One per model in compare mode.
+export const compareColors = colors.slice(2);
+
+// One per 3D box, skipping black and white so white labels stay readable.
+export const boxColors = colors.slice(2);
+
+export const relationTypes: RelationType[] = [
+  "on",
+  "inside",
+  "next to",
+  "used with",
+];
+
+export const relationColors: Record<RelationType, string> = {
+  on: colors[6],
+  inside: colors[7],
+  "next to": colors[5],
+  "used with": colors[3],
+};
+
+export const backendOptions: BackendName[] = ["gemini", "http", "mock"];
+
+export const defaultBackend: BackendName = backendOptions.includes(
+  import.meta.env.VITE_BACKEND,
+)
+  ? import.meta.env.VITE_BACKEND
+  : "gemini";
+
 export const imageOptions: string[] = [
   "origami.jpg",
   "kitchen1.png",
@@ -64,12 +97,18 @@ export const defaultPromptParts = {
     "SKU items",
     ' with no more than 10 items. The answer should follow the json format: [{"point": <point>, "label": <label1>}, ...]. The points are in [y, x] format normalized to 0-1000.'
   ],
+  "Segmentation masks": [
+    "Give the segmentation masks for the",
+    "SKU items",
+    'as a JSON list, with no more than 10 items. Each entry contains the 2D bounding box in "box_2d", the segmentation mask in "mask" and the text label in "label".',
+  ],
 };
 
 export const defaultPrompts = {
   "2D bounding boxes": defaultPromptParts["2D bounding boxes"].join(" "),
   "3D bounding boxes": defaultPromptParts["3D bounding boxes"].join(" "),
   Points: defaultPromptParts.Points.join(" "),
+  "Segmentation masks": defaultPromptParts["Segmentation masks"].join(" "),
 };
 
 const safetyLevel = "only_high";
@@ -0,0 +1,127 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { DetectionBackend } from "./backends";
+import { decodeSegmentationMasks } from "./masks";
+import { parseModelResponse } from "./parseResponse";
+import { RunResults, emptyResults } from "./runHistory";
+import {
+  RejectedEntry,
+  responseSchemas,
+  validateBoundingBoxes2D,
+  validateBoundingBoxes3D,
+  validatePoints,
+  validateSegmentationMasks,
+} from "./schemas";
+import { StrokeAnnotation, strokeInstructions } from "./strokes";
+import { DetectTypes } from "./Types";
+
+export type DetectionConfig = {
+  model: string;
+  detectType: DetectTypes;
+  temperature: number;
+  prompt: string;
+};
+
+export type DetectionOutput = {
+  rawText: string;
+  results: RunResults;
+  rejected: RejectedEntry[];
+  latencyMs: number;
+};
+
+// The 2D prompt is built from a target and a label description; the other
+// detect types join their prompt parts, whose instructions carry the limit.
+// Strokes drawn on the image are explained after the instructions.
+export function getDetectionPrompt(
+  detectType: DetectTypes,
+  promptParts: string[],
+  itemLimit: number,
+  strokes: StrokeAnnotation[] = [],
+) {
+  let prompt;
+  if (detectType === "2D bounding boxes") {
+    const [target, label] = promptParts;
+    prompt = `Detect ${target}, with no more than ${itemLimit} items. Output a json list where each entry contains the 2D bounding box in "box_2d" and ${
+      label || "a text label"
+    } in "label".`;
+  } else {
+    prompt = promptParts
+      .join(" ")
+      .replace(/no more than \d+ items/, `no more than ${itemLimit} items`);
+  }
+  return [prompt, strokeInstructions(strokes)].filter(Boolean).join(" ");
+}
+
+// Turns a raw model response into results for the given detect type, keeping
+// whatever entries validate.
+export async function parseDetections(
+  detectType: DetectTypes,
+  text: string,
+): Promise<{ results: RunResults; rejected: RejectedEntry[] }> {
+  const { value, truncated } = parseModelResponse(text);
+  if (truncated) {
+    console.warn("Response was truncated, keeping complete entries only");
+  }
+
+  if (detectType === "2D bounding boxes") {
+    const { valid, rejected } = validateBoundingBoxes2D(value);
+    return { results: { ...emptyResults, boxes2D: valid }, rejected };
+  } else if (detectType === "Segmentation masks") {
+    const entries = validateSegmentationMasks(value);
+    const masks = await decodeSegmentationMasks(entries.valid);
+    return {
+      results: { ...emptyResults, masks: masks.valid },
+      rejected: [...entries.rejected, ...masks.rejected],
+    };
+  } else if (detectType === "Points") {
+    const { valid, rejected } = validatePoints(value);
+    return { results: { ...emptyResults, points: valid }, rejected };
+  } else {
+    const { valid, rejected } = validateBoundingBoxes3D(value);
+    return { results: { ...emptyResults, boxes3D: valid }, rejected };
+  }
+}
+
+export async function runDetection(
+  backend: DetectionBackend,
+  config: DetectionConfig,
+  image: string,
+): Promise<DetectionOutput> {
+  const startedAt = performance.now();
+  const rawText = await backend.detect({
+    ...config,
+    image,
+    responseSchema: responseSchemas[config.detectType],
+  });
+  const latencyMs = Math.round(performance.now() - startedAt);
+  return {
+    rawText,
+    latencyMs,
+    ...(await parseDetections(config.detectType, rawText)),
+  };
+}
+
+export function countResults(results: RunResults) {
+  return (
+    results.boxes2D.length +
+    results.boxes3D.length +
+    results.points.length +
+    results.masks.length
+  );
+}
+
+export function flattenResults({ boxes2D, boxes3D, points, masks }: RunResults) {
+  return [...boxes2D, ...boxes3D, ...points, ...masks];
+}
@@ -0,0 +1,42 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Encodes frames off the UI thread. Receives an ImageBitmap and posts back the
+// encoded Blob, or an error message, under the same request id.
+
+export type EncodeRequest = {
+  id: number;
+  bitmap: ImageBitmap;
+  format: string;
+  quality: number;
+};
+
+export type EncodeResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+const reply = (response: EncodeResponse) => self.postMessage(response);
+
+self.onmessage = async (e: MessageEvent<EncodeRequest>) => {
+  const { id, bitmap, format, quality } = e.data;
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const blob = await canvas.convertToBlob({ type: format, quality });
+    reply({ id, blob });
+  } catch (error) {
+    reply({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,379 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { PointingType } from "./atoms";
+import {
+  BoundingBox2DType,
+  BoundingBox3DType,
+  SegmentationMaskType,
+} from "./Types";
+
+// Detections for one image. Coordinates are normalized like the atoms they
+// come from, and converted to pixels of the natural image size on export.
+export type ExportImage = {
+  fileName: string;
+  width: number;
+  height: number;
+  boxes2D: BoundingBox2DType[];
+  points: PointingType[];
+  boxes3D: BoundingBox3DType[];
+  masks: SegmentationMaskType[];
+};
+
+export type ExportFormat = "coco" | "voc" | "yolo" | "csv" | "polygons";
+
+export type ExportFile = {
+  name: string;
+  content: string;
+  type: string;
+};
+
+// Labelled 2D regions of an image, whether they came from boxes or masks.
+function regions({ boxes2D, masks }: ExportImage): BoundingBox2DType[] {
+  return [...boxes2D, ...masks];
+}
+
+function labelsOf(images: ExportImage[]) {
+  const labels = new Set<string>();
+  for (const image of images) {
+    regions(image).forEach(({ label }) => labels.add(label));
+    image.points.forEach(({ label }) => labels.add(label));
+  }
+  return Array.from(labels).sort();
+}
+
+function pixelBox(
+  { x, y, width, height }: BoundingBox2DType,
+  image: ExportImage,
+) {
+  return {
+    xmin: Math.round(x * image.width),
+    ymin: Math.round(y * image.height),
+    xmax: Math.round((x + width) * image.width),
+    ymax: Math.round((y + height) * image.height),
+  };
+}
+
+function polygonArea(polygon: number[][]) {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x0, y0] = polygon[i];
+    const [x1, y1] = polygon[(i + 1) % polygon.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return Math.abs(area) / 2;
+}
+
+// A mask's outlines in image pixels, without rings too thin to enclose
+// anything, which COCO tools reject.
+function pixelPolygons(mask: SegmentationMaskType, image: ExportImage) {
+  return mask.polygons
+    .map((polygon) =>
+      polygon.map(([x, y]) => [
+        Math.round(x * image.width),
+        Math.round(y * image.height),
+      ]),
+    )
+    .filter((polygon) => polygon.length >= 3 && polygonArea(polygon) > 0);
+}
+
+function baseName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+function datasetName(images: ExportImage[], extension: string) {
+  return images.length === 1
+    ? `${baseName(images[0].fileName)}.${extension}`
+    : `dataset.${extension}`;
+}
+
+// 3D boxes have no pixel footprint without a camera model, so they are only
+// included in the CSV export.
+export function toCoco(images: ExportImage[]): ExportFile {
+  const categories = labelsOf(images).map((name, i) => ({ id: i + 1, name }));
+  const categoryId = (label: string) =>
+    categories.find(({ name }) => name === label)!.id;
+  const annotations: object[] = [];
+
+  images.forEach((image, imageIndex) => {
+    const annotation = (fields: object) =>
+      annotations.push({
+        id: annotations.length + 1,
+        image_id: imageIndex + 1,
+        iscrowd: 0,
+        ...fields,
+      });
+
+    for (const box of image.boxes2D) {
+      const { xmin, ymin, xmax, ymax } = pixelBox(box, image);
+      annotation({
+        category_id: categoryId(box.label),
+        bbox: [xmin, ymin, xmax - xmin, ymax - ymin],
+        area: (xmax - xmin) * (ymax - ymin),
+      });
+    }
+    for (const mask of image.masks) {
+      const { xmin, ymin, xmax, ymax } = pixelBox(mask, image);
+      const polygons = pixelPolygons(mask, image);
+      if (polygons.length === 0) continue;
+      annotation({
+        category_id: categoryId(mask.label),
+        bbox: [xmin, ymin, xmax - xmin, ymax - ymin],
+        segmentation: polygons.map((polygon) => polygon.flat()),
+        area: polygons.reduce((sum, polygon) => sum + polygonArea(polygon), 0),
+      });
+    }
+    for (const { point, label } of image.points) {
+      const x = Math.round(point.x * image.width);
+      const y = Math.round(point.y * image.height);
+      annotation({
+        category_id: categoryId(label),
+        bbox: [x, y, 0, 0],
+        area: 0,
+        keypoints: [x, y, 2],
+        num_keypoints: 1,
+      });
+    }
+  });
+
+  return {
+    name: datasetName(images, "coco.json"),
+    content: JSON.stringify(
+      {
+        images: images.map(({ fileName, width, height }, i) => ({
+          id: i + 1,
+          file_name: fileName,
+          width,
+          height,
+        })),
+        categories,
+        annotations,
+      },
+      null,
+      2,
+    ),
+    type: "application/json",
+  };
+}
+
+function escapeXml(text: string) {
+  return text.replace(
+    /[<>&'"]/g,
+    (char) =>
+      ({
+        "<": "&lt;",
+        ">": "&gt;",
+        "&": "&amp;",
+        "'": "&apos;",
+        '"': "&quot;",
+      })[char]!,
+  );
+}
+
+export function toPascalVoc(image: ExportImage): ExportFile {
+  const objects = regions(image).map((region) => {
+    const { xmin, ymin, xmax, ymax } = pixelBox(region, image);
+    return `  <object>
+    <name>${escapeXml(region.label)}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${xmin}</xmin>
+      <ymin>${ymin}</ymin>
+      <xmax>${xmax}</xmax>
+      <ymax>${ymax}</ymax>
+    </bndbox>
+  </object>`;
+  });
+  return {
+    name: `${baseName(image.fileName)}.xml`,
+    content: `<annotation>
+  <filename>${escapeXml(image.fileName)}</filename>
+  <size>
+    <width>${image.width}</width>
+    <height>${image.height}</height>
+    <depth>3</depth>
+  </size>
+${objects.join("\n")}
+</annotation>
+`,
+    type: "application/xml",
+  };
+}
+
+// YOLO coordinates are normalized by definition, so they are written as-is.
+// Class ids index into the classes.txt file exported alongside.
+export function toYolo(image: ExportImage, classes: string[]): ExportFile {
+  const lines = regions(image).map(({ x, y, width, height, label }) =>
+    [
+      classes.indexOf(label),
+      ...[x + width / 2, y + height / 2, width, height].map((v) =>
+        v.toFixed(6),
+      ),
+    ].join(" "),
+  );
+  return {
+    name: `${baseName(image.fileName)}.txt`,
+    content: lines.join("\n") + "\n",
+    type: "text/plain",
+  };
+}
+
+const csvColumns = [
+  "image",
+  "type",
+  "label",
+  "x_min",
+  "y_min",
+  "x_max",
+  "y_max",
+  "point_x",
+  "point_y",
+  "center_x",
+  "center_y",
+  "center_z",
+  "size_x",
+  "size_y",
+  "size_z",
+  "roll",
+  "pitch",
+  "yaw",
+] as const;
+
+function csvCell(value: string | number | undefined) {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per detection. 2D values are in pixels; 3D values are in the
+// model's units, with angles in degrees.
+export function toCsv(images: ExportImage[]): ExportFile {
+  const rows: Partial<Record<(typeof csvColumns)[number], string | number>>[] =
+    [];
+  for (const image of images) {
+    const base = { image: image.fileName };
+    for (const box of image.boxes2D) {
+      const { xmin, ymin, xmax, ymax } = pixelBox(box, image);
+      rows.push({
+        ...base,
+        type: "box_2d",
+        label: box.label,
+        x_min: xmin,
+        y_min: ymin,
+        x_max: xmax,
+        y_max: ymax,
+      });
+    }
+    for (const mask of image.masks) {
+      const { xmin, ymin, xmax, ymax } = pixelBox(mask, image);
+      rows.push({
+        ...base,
+        type: "mask",
+        label: mask.label,
+        x_min: xmin,
+        y_min: ymin,
+        x_max: xmax,
+        y_max: ymax,
+      });
+    }
+    for (const { point, label } of image.points) {
+      rows.push({
+        ...base,
+        type: "point",
+        label,
+        point_x: Math.round(point.x * image.width),
+        point_y: Math.round(point.y * image.height),
+      });
+    }
+    for (const { center, size, rpy, label } of image.boxes3D) {
+      const [roll, pitch, yaw] = rpy.map(
+        (r) => +((r * 180) / Math.PI).toFixed(3),
+      );
+      rows.push({
+        ...base,
+        type: "box_3d",
+        label,
+        center_x: center[0],
+        center_y: center[1],
+        center_z: center[2],
+        size_x: size[0],
+        size_y: size[1],
+        size_z: size[2],
+        roll,
+        pitch,
+        yaw,
+      });
+    }
+  }
+  return {
+    name: datasetName(images, "csv"),
+    content:
+      [
+        csvColumns.join(","),
+        ...rows.map((row) => csvColumns.map((c) => csvCell(row[c])).join(",")),
+      ].join("\n") + "\n",
+    type: "text/csv",
+  };
+}
+
+export function toPolygonsJson(image: ExportImage): ExportFile {
+  return {
+    name: `${baseName(image.fileName)}.polygons.json`,
+    content: JSON.stringify(
+      {
+        image: image.fileName,
+        width: image.width,
+        height: image.height,
+        objects: image.masks
+          .map((mask) => ({
+            label: mask.label,
+            polygons: pixelPolygons(mask, image),
+          }))
+          .filter(({ polygons }) => polygons.length > 0),
+      },
+      null,
+      2,
+    ),
+    type: "application/json",
+  };
+}
+
+export function exportImages(
+  format: ExportFormat,
+  images: ExportImage[],
+): ExportFile[] {
+  switch (format) {
+    case "coco":
+      return [toCoco(images)];
+    case "csv":
+      return [toCsv(images)];
+    case "voc":
+      return images.map(toPascalVoc);
+    case "yolo": {
+      const classes = labelsOf(images);
+      return [
+        ...images.map((image) => toYolo(image, classes)),
+        {
+          name: "classes.txt",
+          content: classes.join("\n") + "\n",
+          type: "text/plain",
+        },
+      ];
+    }
+    case "polygons":
+      return images.map(toPolygonsJson);
+  }
+}
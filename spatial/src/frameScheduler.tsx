@@ -0,0 +1,129 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Called by a frame task right before it applies a result on the given
+// channel (e.g. "detection"). Returns false if a newer frame already applied
+// its result there, in which case the task should drop its own.
+export type ClaimResult = (channel: string) => boolean;
+
+export type FrameTask = (claim: ClaimResult) => Promise<void>;
+
+export type SchedulerStats = {
+  inFlight: number;
+  // Frames whose results were applied per second, over the last few seconds.
+  fps: number;
+  latencyMs: number | null;
+  intervalMs: number;
+  dropped: number;
+};
+
+export type FrameScheduler = {
+  stop: () => void;
+};
+
+const fpsWindowMs = 5000;
+// Weight of the newest latency sample in the moving average.
+const latencyAlpha = 0.3;
+
+// Starts a frame at most every `minIntervalMs`, never with more than
+// `maxInFlight` frames outstanding. The interval stretches to the observed
+// latency spread over the available slots, so a slow model isn't asked for
+// frames it could only answer late.
+export function createFrameScheduler({
+  task,
+  minIntervalMs,
+  maxInFlight,
+  onStats,
+}: {
+  task: FrameTask;
+  minIntervalMs: number;
+  maxInFlight: number;
+  onStats: (stats: SchedulerStats) => void;
+}): FrameScheduler {
+  let stopped = false;
+  let timer: number | undefined;
+  let nextSeq = 0;
+  let inFlight = 0;
+  let dropped = 0;
+  let latencyMs: number | null = null;
+  const newestApplied = new Map<string, number>();
+  const appliedAt: number[] = [];
+
+  const intervalMs = () =>
+    Math.max(minIntervalMs, (latencyMs ?? 0) / maxInFlight);
+
+  function report() {
+    const now = performance.now();
+    while (appliedAt.length && appliedAt[0] < now - fpsWindowMs) {
+      appliedAt.shift();
+    }
+    onStats({
+      inFlight,
+      fps: appliedAt.length / (fpsWindowMs / 1000),
+      latencyMs,
+      intervalMs: intervalMs(),
+      dropped,
+    });
+  }
+
+  function startFrame() {
+    const seq = ++nextSeq;
+    const startedAt = performance.now();
+    let applied = false;
+    inFlight++;
+    report();
+
+    const claim: ClaimResult = (channel) => {
+      if (stopped || (newestApplied.get(channel) ?? 0) > seq) {
+        return false;
+      }
+      newestApplied.set(channel, seq);
+      if (!applied) {
+        applied = true;
+        appliedAt.push(performance.now());
+      }
+      return true;
+    };
+
+    task(claim)
+      .catch((error) => console.error("Error analyzing frame:", error))
+      .finally(() => {
+        inFlight--;
+        const latency = performance.now() - startedAt;
+        latencyMs =
+          latencyMs === null
+            ? latency
+            : latencyMs + (latency - latencyMs) * latencyAlpha;
+        if (!applied) dropped++;
+        if (!stopped) report();
+      });
+  }
+
+  function tick() {
+    if (stopped) return;
+    if (inFlight < maxInFlight) {
+      startFrame();
+    }
+    timer = window.setTimeout(tick, intervalMs());
+  }
+
+  tick();
+
+  return {
+    stop: () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    },
+  };
+}
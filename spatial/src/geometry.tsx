@@ -0,0 +1,86 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+function intersectionArea(a: Rect, b: Rect) {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  return Math.max(0, right - left) * Math.max(0, bottom - top);
+}
+
+export function iou(a: Rect, b: Rect) {
+  const intersection = intersectionArea(a, b);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// How much of the smaller box lies inside the larger one. Unlike IoU this is
+// high for a box cut off by a tile edge and the full box it belongs to.
+export function containment(a: Rect, b: Rect) {
+  const smaller = Math.min(a.width * a.height, b.width * b.height);
+  return smaller > 0 ? intersectionArea(a, b) / smaller : 0;
+}
+
+export type BoxMatch = {
+  a: number;
+  b: number;
+  iou: number;
+};
+
+// Greedily pairs boxes from two lists, highest IoU first, so each box is used
+// at most once. Pairs below the threshold are left unmatched.
+export function matchBoxes<T extends Rect, U extends Rect>(
+  listA: T[],
+  listB: U[],
+  threshold = 0.5,
+  canMatch: (a: T, b: U) => boolean = () => true,
+) {
+  const candidates: BoxMatch[] = [];
+  listA.forEach((boxA, a) =>
+    listB.forEach((boxB, b) => {
+      const overlap = iou(boxA, boxB);
+      if (overlap >= threshold && canMatch(boxA, boxB)) {
+        candidates.push({ a, b, iou: overlap });
+      }
+    }),
+  );
+  candidates.sort((m, n) => n.iou - m.iou);
+
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const matches: BoxMatch[] = [];
+  for (const match of candidates) {
+    if (usedA.has(match.a) || usedB.has(match.b)) continue;
+    usedA.add(match.a);
+    usedB.add(match.b);
+    matches.push(match);
+  }
+  return {
+    matches,
+    unmatchedA: listA.map((_, i) => i).filter((i) => !usedA.has(i)),
+    unmatchedB: listB.map((_, i) => i).filter((i) => !usedB.has(i)),
+  };
+}
+
+export function sameLabel(a: { label: string }, b: { label: string }) {
+  return a.label.trim().toLowerCase() === b.label.trim().toLowerCase();
+}
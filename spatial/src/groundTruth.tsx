@@ -0,0 +1,143 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { matchBoxes, sameLabel } from "./geometry";
+import { BoundingBox2DType } from "./Types";
+
+export type AnnotationFile = {
+  name: string;
+  text: string;
+};
+
+// Reads ground truth for one image from a COCO JSON file, or from a YOLO label
+// file with an optional classes.txt next to it. Boxes come back normalized.
+export function parseGroundTruth(
+  files: AnnotationFile[],
+  imageName: string,
+): BoundingBox2DType[] {
+  const coco = files.find(({ name }) => name.endsWith(".json"));
+  if (coco) {
+    return parseCoco(coco.text, imageName);
+  }
+  const classes = files.find(({ name }) =>
+    /^(classes|obj)\.(txt|names)$/.test(name),
+  );
+  const labels = files.find(
+    (file) => file !== classes && file.name.endsWith(".txt"),
+  );
+  if (!labels) {
+    throw new Error("Expected a COCO .json file or a YOLO .txt label file");
+  }
+  return parseYolo(labels.text, classes?.text);
+}
+
+function stem(fileName: string) {
+  return fileName.split("/").pop()!.replace(/\.[^.]+$/, "");
+}
+
+type CocoFile = {
+  images?: { id: number; file_name: string; width: number; height: number }[];
+  annotations?: { image_id: number; category_id: number; bbox?: number[] }[];
+  categories?: { id: number; name: string }[];
+};
+
+function parseCoco(text: string, imageName: string): BoundingBox2DType[] {
+  const { images = [], annotations = [], categories = [] } = JSON.parse(
+    text,
+  ) as CocoFile;
+  const image =
+    images.find(({ file_name }) => stem(file_name) === stem(imageName)) ??
+    (images.length === 1 ? images[0] : undefined);
+  if (!image) {
+    throw new Error(`No image named ${imageName} in the COCO file`);
+  }
+  return annotations
+    .filter(({ image_id, bbox }) => image_id === image.id && bbox?.length === 4)
+    .map(({ category_id, bbox }) => {
+      const [x, y, width, height] = bbox!;
+      return {
+        id: crypto.randomUUID(),
+        x: x / image.width,
+        y: y / image.height,
+        width: width / image.width,
+        height: height / image.height,
+        label:
+          categories.find(({ id }) => id === category_id)?.name ??
+          `class ${category_id}`,
+      };
+    });
+}
+
+function parseYolo(text: string, classesText?: string): BoundingBox2DType[] {
+  const classes = classesText?.split("\n").map((line) => line.trim()) ?? [];
+  return text
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter((fields) => fields.length >= 5)
+    .map((fields) => {
+      const [classId, cx, cy, width, height] = fields.map(Number);
+      if ([classId, cx, cy, width, height].some((v) => Number.isNaN(v))) {
+        throw new Error(`Invalid YOLO line: ${fields.join(" ")}`);
+      }
+      return {
+        id: crypto.randomUUID(),
+        x: cx - width / 2,
+        y: cy - height / 2,
+        width,
+        height,
+        label: classes[classId] || `class ${classId}`,
+      };
+    });
+}
+
+export type Evaluation = {
+  precision: number;
+  recall: number;
+  meanIoU: number;
+  labelAgreement: number;
+  truePositives: number;
+  // Indices into the predictions and the ground truth respectively.
+  falsePositives: number[];
+  misses: number[];
+};
+
+// Matches predictions to ground truth by IoU regardless of label, then reports
+// how often matched pairs also agree on the label.
+export function evaluateDetections(
+  predictions: BoundingBox2DType[],
+  truths: BoundingBox2DType[],
+  threshold = 0.5,
+): Evaluation {
+  const { matches, unmatchedA, unmatchedB } = matchBoxes(
+    predictions,
+    truths,
+    threshold,
+  );
+  const agreeing = matches.filter(({ a, b }) =>
+    sameLabel(predictions[a], truths[b]),
+  );
+  const ratio = (n: number, d: number) => (d > 0 ? n / d : 0);
+  return {
+    precision: ratio(matches.length, predictions.length),
+    recall: ratio(matches.length, truths.length),
+    meanIoU: ratio(
+      matches.reduce((sum, { iou }) => sum + iou, 0),
+      matches.length,
+    ),
+    labelAgreement: ratio(agreeing.length, matches.length),
+    truePositives: matches.length,
+    falsePositives: unmatchedA,
+    misses: unmatchedB,
+  };
+}
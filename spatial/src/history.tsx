@@ -0,0 +1,44 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Getter, PrimitiveAtom, Setter } from "jotai";
+
+// One atom going from one value to another.
+export type Change = {
+  undo: (set: Setter) => void;
+  redo: (set: Setter) => void;
+};
+
+export type Command = {
+  label: string;
+  changes: Change[];
+};
+
+export type Update = (get: Getter) => Change;
+
+export function change<T>(
+  target: PrimitiveAtom<T>,
+  before: T,
+  after: T,
+): Change {
+  return {
+    undo: (set) => set(target, before),
+    redo: (set) => set(target, after),
+  };
+}
+
+// Sets an atom, remembering whatever value it holds at the time of the commit.
+export function assign<T>(target: PrimitiveAtom<T>, value: T): Update {
+  return (get) => change(target, get(target), value);
+}
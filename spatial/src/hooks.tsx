@@ -13,26 +13,333 @@
 // limitations under the License.
 
 import { useAtom } from "jotai";
+import { useEffect } from "react";
 import {
+  BackendAtom,
+  BatchConcurrencyAtom,
+  BatchConfigAtom,
+  BatchItemsAtom,
+  BatchRunningAtom,
   BoundingBoxes2DAtom,
   BoundingBoxes3DAtom,
   BumpSessionAtom,
+  ChatMessagesAtom,
+  ChatRequestAtom,
+  ChatShownAtom,
+  CommitAtom,
+  DetectTypeAtom,
+  DetectionRequestAtom,
+  GroundTruthAtom,
+  ImageNameAtom,
   ImageSentAtom,
+  ImageSrcAtom,
+  IsUploadedImageAtom,
+  LabelPromptAtom,
+  LinesAtom,
+  ModelSelectedAtom,
   PointsAtom,
+  PromptsAtom,
+  RedoAtom,
+  RejectedEntriesAtom,
+  ReleasedImageUrlAtom,
+  SceneContextRequestAtom,
+  SceneGraphAtom,
+  SceneGraphRequestAtom,
+  SegmentationMasksAtom,
+  SelectedInstanceAtom,
+  ShareStream,
+  TargetPromptAtom,
+  TemperatureAtom,
+  TracksAtom,
+  UndoAtom,
+  ViewportAtom,
 } from "./atoms";
+import { backends } from "./backends";
+import { assign } from "./history";
+import { RunRecord, RunResults, withInstanceIds } from "./runHistory";
+import { BatchItem, processBatchItem } from "./batch";
+import { getErrorMessage, isTextInput } from "./utils";
+import { DetectTypes } from "./Types";
+import { emptyTracker } from "./tracker";
+import { Size, panBy, zoomAt } from "./viewport";
 
 export function useResetState() {
   const [, setImageSent] = useAtom(ImageSentAtom);
-  const [, setBoundingBoxes2D] = useAtom(BoundingBoxes2DAtom);
-  const [, setBoundingBoxes3D] = useAtom(BoundingBoxes3DAtom);
-  const [, setPoints] = useAtom(PointsAtom);
+  const [, commit] = useAtom(CommitAtom);
   const [, setBumpSession] = useAtom(BumpSessionAtom);
+  const [, setRejectedEntries] = useAtom(RejectedEntriesAtom);
+  const [, setDetectionRequest] = useAtom(DetectionRequestAtom);
+  const [, setSceneContextRequest] = useAtom(SceneContextRequestAtom);
+  const [, setTracks] = useAtom(TracksAtom);
+  const [, setSceneGraph] = useAtom(SceneGraphAtom);
+  const [, setSceneGraphRequest] = useAtom(SceneGraphRequestAtom);
+  const [, setSelectedInstance] = useAtom(SelectedInstanceAtom);
+  const [, setChatMessages] = useAtom(ChatMessagesAtom);
+  const [, setChatRequest] = useAtom(ChatRequestAtom);
+  const [, setChatShown] = useAtom(ChatShownAtom);
 
   return () => {
     setImageSent(false);
-    setBoundingBoxes2D([]);
-    setBoundingBoxes3D([]);
+    commit({
+      label: "Reset",
+      updates: [
+        assign(BoundingBoxes2DAtom, []),
+        assign(BoundingBoxes3DAtom, []),
+        assign(PointsAtom, []),
+        assign(SegmentationMasksAtom, []),
+        assign(GroundTruthAtom, []),
+      ],
+    });
     setBumpSession((prev) => prev + 1);
-    setPoints([]);
+    setRejectedEntries([]);
+    setDetectionRequest({ status: "idle" });
+    setSceneContextRequest({ status: "idle" });
+    setTracks(emptyTracker);
+    setSceneGraph(null);
+    setSceneGraphRequest({ status: "idle" });
+    setSelectedInstance(null);
+    setChatMessages([]);
+    setChatRequest({ status: "idle" });
+    setChatShown(null);
+  };
+}
+
+export type ShownResults = {
+  image: string;
+  imageName: string;
+  lines: [[number, number][], string][];
+  detectType: DetectTypes;
+  results: RunResults;
+  rawText?: string;
+};
+
+// Replaces whatever is on screen, including a live stream, with a still image
+// and results computed for it elsewhere, e.g. in a past run or a batch.
+export function useShowResults() {
+  const resetState = useResetState();
+  const [stream, setStream] = useAtom(ShareStream);
+  const [, setImageSrc] = useAtom(ImageSrcAtom);
+  const [, setImageName] = useAtom(ImageNameAtom);
+  const [, setIsUploadedImage] = useAtom(IsUploadedImageAtom);
+  const [, setLines] = useAtom(LinesAtom);
+  const [, setDetectType] = useAtom(DetectTypeAtom);
+  const [, setBoundingBoxes2D] = useAtom(BoundingBoxes2DAtom);
+  const [, setBoundingBoxes3D] = useAtom(BoundingBoxes3DAtom);
+  const [, setPoints] = useAtom(PointsAtom);
+  const [, setSegmentationMasks] = useAtom(SegmentationMasksAtom);
+  const [, setDetectionRequest] = useAtom(DetectionRequestAtom);
+
+  return ({
+    image,
+    imageName,
+    lines,
+    detectType,
+    results,
+    rawText,
+  }: ShownResults) => {
+    if (stream) {
+      stream.getTracks().forEach((track) => track.stop());
+      setStream(null);
+    }
+    resetState();
+    setImageSrc(image);
+    setImageName(imageName);
+    setIsUploadedImage(true);
+    setLines(lines);
+    setDetectType(detectType);
+    const { boxes2D, boxes3D, points, masks } = withInstanceIds(results);
+    setBoundingBoxes2D(boxes2D);
+    setBoundingBoxes3D(boxes3D);
+    setPoints(points);
+    setSegmentationMasks(masks);
+    setDetectionRequest({ status: "done", rawText });
+  };
+}
+
+// Puts the app back into the state a recorded run left it in: same image,
+// strokes, prompt, model settings and results.
+export function useRestoreRun() {
+  const showResults = useShowResults();
+  const [, setPrompts] = useAtom(PromptsAtom);
+  const [, setTargetPrompt] = useAtom(TargetPromptAtom);
+  const [, setLabelPrompt] = useAtom(LabelPromptAtom);
+  const [, setBackendName] = useAtom(BackendAtom);
+  const [, setModelSelected] = useAtom(ModelSelectedAtom);
+  const [, setTemperature] = useAtom(TemperatureAtom);
+
+  return (run: RunRecord) => {
+    showResults({ ...run, rawText: run.rawResponse });
+    if (run.detectType === "2D bounding boxes") {
+      const [target, label] = run.promptParts;
+      setTargetPrompt(target);
+      setLabelPrompt(label);
+    } else {
+      setPrompts((prev) => ({ ...prev, [run.detectType]: run.promptParts }));
+    }
+    setBackendName(run.backend);
+    setModelSelected(run.model);
+    setTemperature(run.temperature);
   };
 }
+
+export function useBackend() {
+  const [backendName] = useAtom(BackendAtom);
+  return backends[backendName];
+}
+
+// Ctrl+Z / Cmd+Z to undo, with Shift (or Ctrl+Y) to redo. Text fields keep
+// their own undo.
+export function useHistoryShortcuts() {
+  const [, undo] = useAtom(UndoAtom);
+  const [, redo] = useAtom(RedoAtom);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTextInput(e.target)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+}
+
+// Revokes a cleared batch image's object URL once the main view has moved on
+// to another image.
+export function useReleasedImageUrl() {
+  const [imageSrc] = useAtom(ImageSrcAtom);
+  const [released, setReleased] = useAtom(ReleasedImageUrlAtom);
+
+  useEffect(() => {
+    if (released && released !== imageSrc) {
+      URL.revokeObjectURL(released);
+      setReleased(null);
+    }
+  }, [imageSrc, released, setReleased]);
+}
+
+// Keeps up to the configured number of batch items in flight while the batch
+// is running. Pausing lets in-flight items finish but starts no new ones.
+export function useBatchRunner() {
+  const [items, setItems] = useAtom(BatchItemsAtom);
+  const [config, setConfig] = useAtom(BatchConfigAtom);
+  const [running, setRunning] = useAtom(BatchRunningAtom);
+  const [concurrency] = useAtom(BatchConcurrencyAtom);
+
+  useEffect(() => {
+    if (!running || !config) return;
+    const updateItem = (id: string, update: Partial<BatchItem>) =>
+      setItems((prev) =>
+        prev.map((item) => (item.id === id ? { ...item, ...update } : item)),
+      );
+
+    const active = items.filter(({ status }) => status === "running").length;
+    const queued = items.filter(({ status }) => status === "queued");
+    if (active === 0 && queued.length === 0) {
+      setRunning(false);
+      setConfig(null);
+      return;
+    }
+    for (const item of queued.slice(0, Math.max(0, concurrency - active))) {
+      updateItem(item.id, { status: "running", error: undefined });
+      processBatchItem(item, backends[config.backend], config, config.capture)
+        .then((result) => updateItem(item.id, { ...result, status: "done" }))
+        .catch((error) =>
+          updateItem(item.id, {
+            status: "failed",
+            error: getErrorMessage(error),
+          }),
+        );
+    }
+  }, [items, config, running, concurrency, setItems, setRunning, setConfig]);
+}
+
+// Wheel zoom on the element, and dragging to pan it or pinching to zoom.
+// Plain drags and pinches only work when canDragPan is set, so drawing and
+// editing keep the pointer; the middle mouse button always pans.
+export function usePanZoom(
+  element: HTMLElement | null,
+  size: Size,
+  canDragPan: boolean,
+) {
+  const [, setViewport] = useAtom(ViewportAtom);
+  const { width, height } = size;
+
+  useEffect(() => {
+    if (!element) return;
+    const area = { width, height };
+    // Pointers taking part in a pan or pinch, in element pixels.
+    const pointers = new Map<number, [number, number]>();
+    const toLocal = (e: MouseEvent): [number, number] => {
+      const rect = element.getBoundingClientRect();
+      return [e.clientX - rect.left, e.clientY - rect.top];
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toLocal(e);
+      setViewport((prev) => zoomAt(prev, Math.exp(-e.deltaY * 0.002), point, area));
+    };
+    const onPointerDown = (e: PointerEvent) => {
+      const isMiddle = e.pointerType === "mouse" && e.button === 1;
+      if (pointers.size >= 2 || !(isMiddle || (canDragPan && e.button === 0))) {
+        return;
+      }
+      if (isMiddle) e.preventDefault();
+      element.setPointerCapture(e.pointerId);
+      pointers.set(e.pointerId, toLocal(e));
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      const before = pointers.get(e.pointerId);
+      if (!before) return;
+      const after = toLocal(e);
+      pointers.set(e.pointerId, after);
+      const other = [...pointers].find(([id]) => id !== e.pointerId)?.[1];
+      if (!other) {
+        setViewport((prev) =>
+          panBy(prev, after[0] - before[0], after[1] - before[1], area),
+        );
+        return;
+      }
+      // Pinch around the point between both fingers.
+      const factor =
+        Math.hypot(after[0] - other[0], after[1] - other[1]) /
+        Math.max(1, Math.hypot(before[0] - other[0], before[1] - other[1]));
+      const center: [number, number] = [
+        (after[0] + other[0]) / 2,
+        (after[1] + other[1]) / 2,
+      ];
+      setViewport((prev) =>
+        panBy(
+          zoomAt(prev, factor, center, area),
+          (after[0] - before[0]) / 2,
+          (after[1] - before[1]) / 2,
+          area,
+        ),
+      );
+    };
+    const onPointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+    };
+
+    element.addEventListener("wheel", onWheel, { passive: false });
+    element.addEventListener("pointerdown", onPointerDown);
+    element.addEventListener("pointermove", onPointerMove);
+    element.addEventListener("pointerup", onPointerUp);
+    element.addEventListener("pointercancel", onPointerUp);
+    return () => {
+      element.removeEventListener("wheel", onWheel);
+      element.removeEventListener("pointerdown", onPointerDown);
+      element.removeEventListener("pointermove", onPointerMove);
+      element.removeEventListener("pointerup", onPointerUp);
+      element.removeEventListener("pointercancel", onPointerUp);
+    };
+  }, [element, width, height, canDragPan, setViewport]);
+}
@@ -0,0 +1,42 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// A detection of any type, as far as the item list and the scene graph care.
+export type Instance = {
+  id: string;
+  label: string;
+};
+
+// Instances grouped by label, alphabetically, each group in detection order.
+export function groupByLabel(instances: Instance[]) {
+  const groups = new Map<string, string[]>();
+  for (const { id, label } of instances) {
+    groups.set(label, [...(groups.get(label) ?? []), id]);
+  }
+  return Array.from(groups, ([label, ids]) => ({ label, ids })).sort((a, b) =>
+    a.label.localeCompare(b.label),
+  );
+}
+
+// Names that tell instances with the same label apart, e.g. "mug #2". Labels
+// that occur once are left as they are.
+export function instanceNames(instances: Instance[]) {
+  const names = new Map<string, string>();
+  for (const { label, ids } of groupByLabel(instances)) {
+    ids.forEach((id, i) =>
+      names.set(id, ids.length > 1 ? `${label} #${i + 1}` : label),
+    );
+  }
+  return names;
+}
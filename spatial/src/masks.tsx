@@ -0,0 +1,228 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { maskColors } from "./consts";
+import { RejectedEntry, SegmentationMaskEntry, ValidationResult } from "./schemas";
+import { SegmentationMaskType } from "./Types";
+import { getErrorMessage, loadImage } from "./utils";
+
+// Mask pixels are probabilities from 0 to 255.
+const maskThreshold = 127;
+const maskAlpha = 140;
+
+// Decodes each mask PNG into a tinted overlay and traces its outline. The mask
+// covers only its box, so it is stretched into the box when drawn.
+export async function decodeSegmentationMasks(
+  entries: SegmentationMaskEntry[],
+): Promise<ValidationResult<SegmentationMaskType>> {
+  const valid: SegmentationMaskType[] = [];
+  const rejected: RejectedEntry[] = [];
+  await Promise.all(
+    entries.map(async (entry, i) => {
+      try {
+        valid[i] = await decodeMask(entry, maskColors[i % maskColors.length]);
+      } catch (error) {
+        rejected.push({
+          index: entry.index,
+          entry: { ...entry, mask: entry.mask.slice(0, 40) + "…" },
+          reason: `mask could not be decoded: ${getErrorMessage(error)}`,
+        });
+      }
+    }),
+  );
+  return {
+    valid: valid.filter(Boolean),
+    rejected: rejected.sort((a, b) => a.index - b.index),
+  };
+}
+
+async function decodeMask(
+  { id, x, y, width, height, label, mask }: SegmentationMaskEntry,
+  color: string,
+): Promise<SegmentationMaskType> {
+  const image = await loadImage(mask);
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(image, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const [r, g, b] = color.match(/\d+/g)!.map(Number);
+  const binary = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < binary.length; i++) {
+    const on = pixels.data[i * 4] > maskThreshold;
+    binary[i] = on ? 1 : 0;
+    pixels.data.set([r, g, b, on ? maskAlpha : 0], i * 4);
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  const polygons = traceContours(binary, canvas.width, canvas.height).map(
+    (polygon) =>
+      polygon.map(
+        ([px, py]) =>
+          [
+            x + ((px + 0.5) / canvas.width) * width,
+            y + ((py + 0.5) / canvas.height) * height,
+          ] as [number, number],
+      ),
+  );
+
+  return {
+    id,
+    x,
+    y,
+    width,
+    height,
+    label,
+    color,
+    imageData: canvas.toDataURL("image/png"),
+    polygons,
+  };
+}
+
+// Moore-neighbour offsets, clockwise starting from west.
+const neighbours = [
+  [-1, 0],
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+];
+
+// Traces the outer boundary of every connected region in a binary mask and
+// returns one simplified polygon per region, in pixel coordinates.
+export function traceContours(
+  binary: Uint8Array,
+  width: number,
+  height: number,
+  minArea = 4,
+) {
+  const at = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && binary[y * width + x] === 1;
+  const visited = new Uint8Array(binary.length);
+  const polygons: [number, number][][] = [];
+
+  for (let start = 0; start < binary.length; start++) {
+    if (!binary[start] || visited[start]) continue;
+
+    // Flood fill the region so it is only traced once.
+    let area = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length) {
+      const i = stack.pop()!;
+      area++;
+      const px = i % width;
+      const py = Math.floor(i / width);
+      for (const [dx, dy] of neighbours) {
+        const nx = px + dx;
+        const ny = py + dy;
+        if (at(nx, ny) && !visited[ny * width + nx]) {
+          visited[ny * width + nx] = 1;
+          stack.push(ny * width + nx);
+        }
+      }
+    }
+    if (area < minArea) continue;
+
+    // The first pixel in raster order always has an empty west neighbour.
+    const sx = start % width;
+    const sy = Math.floor(start / width);
+    const contour: [number, number][] = [[sx, sy]];
+    let [cx, cy] = [sx, sy];
+    let from = 0;
+    let firstDir = -1;
+    for (let steps = 0; steps < binary.length * 4; steps++) {
+      let dir = -1;
+      for (let k = 1; k <= 8 && dir === -1; k++) {
+        const d = (from + k) % 8;
+        if (at(cx + neighbours[d][0], cy + neighbours[d][1])) dir = d;
+      }
+      if (dir === -1) break;
+      // Stop once the start pixel is left the same way a second time, so
+      // regions that pass through the start pixel twice are fully traced.
+      if (cx === sx && cy === sy) {
+        if (firstDir === dir) break;
+        if (firstDir === -1) firstDir = dir;
+      }
+      cx += neighbours[dir][0];
+      cy += neighbours[dir][1];
+      // Sweep clockwise from the pixel we just came from.
+      from = (dir + 4) % 8;
+      contour.push([cx, cy]);
+    }
+    if (contour.length > 1) contour.pop();
+    polygons.push(simplifyRing(contour, 1));
+  }
+  return polygons;
+}
+
+// Simplifies a closed contour. Splitting it at the point farthest from the
+// start keeps both of those points, so small regions don't lose corners to a
+// chord drawn between two neighbouring points.
+function simplifyRing(
+  points: [number, number][],
+  tolerance: number,
+): [number, number][] {
+  if (points.length < 4) return points;
+  const [ax, ay] = points[0];
+  let far = 0;
+  let farDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    const distance = Math.hypot(points[i][0] - ax, points[i][1] - ay);
+    if (distance > farDistance) {
+      farDistance = distance;
+      far = i;
+    }
+  }
+  const there = simplifyLine(points.slice(0, far + 1), tolerance);
+  const back = simplifyLine([...points.slice(far), points[0]], tolerance);
+  const ring = [...there.slice(0, -1), ...back.slice(0, -1)];
+  // Regions a few pixels across can simplify down to a line.
+  return ring.length >= 3 ? ring : points;
+}
+
+// Ramer-Douglas-Peucker simplification of an open line.
+function simplifyLine(
+  points: [number, number][],
+  tolerance: number,
+): [number, number][] {
+  if (points.length < 3) return points;
+  const [ax, ay] = points[0];
+  const [bx, by] = points[points.length - 1];
+  const length = Math.hypot(bx - ax, by - ay);
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [px, py] = points[i];
+    const distance =
+      length === 0
+        ? Math.hypot(px - ax, py - ay)
+        : Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+  if (maxDistance <= tolerance) {
+    return [points[0], points[points.length - 1]];
+  }
+  const left = simplifyLine(points.slice(0, index + 1), tolerance);
+  const right = simplifyLine(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
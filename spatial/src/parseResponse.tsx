@@ -0,0 +1,105 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type ParsedResponse = {
+  value: unknown;
+  // Set when the output was cut off and only the complete items were kept.
+  truncated: boolean;
+};
+
+// Extracts the first JSON value from model output. Handles ```json and bare
+// ``` fences, prose before or after the JSON, and lists cut off by the token
+// limit, in which case every complete item is recovered.
+export function parseModelResponse(text: string): ParsedResponse {
+  const body = stripFence(text);
+  let lastError: unknown = null;
+  for (let start = findOpening(body, 0); start !== -1; ) {
+    const scan = scanValue(body, start);
+    try {
+      if (scan.end !== -1) {
+        return {
+          value: JSON.parse(body.slice(start, scan.end + 1)),
+          truncated: false,
+        };
+      }
+      if (body[start] === "[") {
+        const lastItem = scan.itemEnds[scan.itemEnds.length - 1] ?? start;
+        return {
+          value: JSON.parse(body.slice(start, lastItem + 1) + "]"),
+          truncated: true,
+        };
+      }
+    } catch (error) {
+      lastError = error;
+    }
+    start = findOpening(body, start + 1);
+  }
+  throw new Error(
+    lastError instanceof Error
+      ? `Could not parse model response: ${lastError.message}`
+      : "No JSON found in model response",
+  );
+}
+
+function stripFence(text: string) {
+  const open = text.indexOf("```");
+  if (open === -1) return text;
+  // Skip the language tag, if any, on the opening fence line.
+  const lineEnd = text.indexOf("\n", open);
+  if (lineEnd === -1) return text.slice(open + 3);
+  const close = text.indexOf("```", lineEnd);
+  return text.slice(lineEnd + 1, close === -1 ? undefined : close);
+}
+
+function findOpening(text: string, from: number) {
+  const match = text.slice(from).search(/[[{]/);
+  return match === -1 ? -1 : from + match;
+}
+
+// Walks a JSON value from its opening bracket, ignoring brackets inside
+// strings. Returns the index of the matching close bracket (or -1 if the text
+// ends first) and, for lists, the index where each top-level item ends.
+function scanValue(text: string, start: number) {
+  const itemEnds: number[] = [];
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') {
+        inString = false;
+        if (depth === 1) itemEnds.push(i);
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+      if (depth === 0) return { end: i, itemEnds };
+      if (depth === 1) itemEnds.push(i);
+    } else if (depth === 1 && /[\d.eE+\-truefalsn]/.test(char)) {
+      // Scalars in a top-level list only count once they are followed by a
+      // separator, so a number cut off mid-way is not treated as complete.
+      const next = text[i + 1];
+      if (next === "," || next === "]" || /\s/.test(next ?? "")) {
+        itemEnds.push(i);
+      }
+    }
+  }
+  return { end: -1, itemEnds };
+}
@@ -0,0 +1,127 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { defaultPromptParts } from "./consts";
+import { DetectTypes } from "./Types";
+
+export type PromptPreset = {
+  id: string;
+  name: string;
+  detectType: DetectTypes;
+  target: string;
+  // Only used by 2D bounding boxes.
+  label: string;
+  itemLimit: number;
+  temperature: number;
+};
+
+export const detectTypes = Object.keys(defaultPromptParts) as DetectTypes[];
+
+export const defaultItemLimits: Record<DetectTypes, number> = {
+  "2D bounding boxes": 20,
+  "3D bounding boxes": 10,
+  Points: 10,
+  "Segmentation masks": 10,
+};
+
+export const defaultTarget = "SKU items";
+export const defaultLabel =
+  "a text label of their name indicating exactly what the item is (the product name).";
+
+export const defaultPresets: PromptPreset[] = detectTypes.map((detectType) => ({
+  id: `default-${detectType}`,
+  name: "Default",
+  detectType,
+  target: defaultTarget,
+  label: detectType === "2D bounding boxes" ? defaultLabel : "",
+  itemLimit: defaultItemLimits[detectType],
+  temperature: 0.5,
+}));
+
+export const clampItemLimit = (value: number) =>
+  Math.min(100, Math.max(1, Math.round(value) || 1));
+
+// Appends a counter to the name until no other preset of the same detect type
+// uses it.
+export function uniqueName(
+  presets: PromptPreset[],
+  detectType: DetectTypes,
+  name: string,
+) {
+  const taken = new Set(
+    presets.filter((p) => p.detectType === detectType).map((p) => p.name),
+  );
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${name} (${i})`;
+  }
+  return candidate;
+}
+
+export function exportPresets(presets: PromptPreset[]) {
+  // IDs are local to this browser and are reassigned on import.
+  const entries = presets.map(
+    ({ name, detectType, target, label, itemLimit, temperature }) => ({
+      name,
+      detectType,
+      target,
+      label,
+      itemLimit,
+      temperature,
+    }),
+  );
+  return JSON.stringify({ presets: entries }, null, 2);
+}
+
+// Reads presets written by exportPresets, or a bare list of them. Imported
+// presets get fresh IDs so they never replace existing ones.
+export function parsePresets(text: string): PromptPreset[] {
+  let value;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("Preset file is not valid JSON");
+  }
+  const entries = Array.isArray(value) ? value : value?.presets;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected a list of presets or an object with "presets"');
+  }
+  return entries.map((entry, i) => {
+    const { name, detectType, target, label, itemLimit, temperature } =
+      entry ?? {};
+    if (typeof name !== "string" || !name.trim()) {
+      throw new Error(`Preset ${i + 1} has no name`);
+    }
+    if (!detectTypes.includes(detectType)) {
+      throw new Error(`Preset "${name}" has an unknown detect type`);
+    }
+    if (typeof target !== "string") {
+      throw new Error(`Preset "${name}" has no target`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      detectType,
+      target,
+      label: typeof label === "string" ? label : "",
+      itemLimit: clampItemLimit(
+        typeof itemLimit === "number" ? itemLimit : defaultItemLimits[detectType as DetectTypes],
+      ),
+      temperature:
+        typeof temperature === "number"
+          ? Math.min(2, Math.max(0, temperature))
+          : 0.5,
+    };
+  });
+}
@@ -0,0 +1,100 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Model responses collected from real runs that broke the old per-call fence
+// stripping. Each one lists what parseModelResponse should return for it; add
+// new shapes here whenever a response slips through.
+
+export type ResponseFixture = {
+  name: string;
+  text: string;
+  expected: unknown;
+  truncated?: boolean;
+};
+
+export const responseFixtures: ResponseFixture[] = [
+  {
+    name: "bare JSON list",
+    text: '[{"box_2d": [10, 20, 300, 400], "label": "mug"}]',
+    expected: [{ box_2d: [10, 20, 300, 400], label: "mug" }],
+  },
+  {
+    name: "json fence",
+    text: '```json\n[{"point": [500, 250], "label": "cat"}]\n```',
+    expected: [{ point: [500, 250], label: "cat" }],
+  },
+  {
+    name: "plain fence without language tag",
+    text: '```\n{"scene": "kitchen", "task": "cooking"}\n```',
+    expected: { scene: "kitchen", task: "cooking" },
+  },
+  {
+    name: "leading prose before fence",
+    text:
+      'Sure! Here are the bounding boxes for the SKU items:\n\n```json\n[\n  {"box_2d": [0, 0, 100, 100], "label": "cereal box"}\n]\n```\nLet me know if you need anything else.',
+    expected: [{ box_2d: [0, 0, 100, 100], label: "cereal box" }],
+  },
+  {
+    name: "leading prose without fence",
+    text: 'Here is the scene context: {"scene": "an office desk", "task": "writing a letter"}',
+    expected: { scene: "an office desk", task: "writing a letter" },
+  },
+  {
+    name: "trailing commentary after bare JSON",
+    text: '{"spoon": "used with bowl", "bowl": "holds cereal"}\n\nThese items are used for breakfast.',
+    expected: { spoon: "used with bowl", bowl: "holds cereal" },
+  },
+  {
+    name: "uppercase language tag",
+    text: '```JSON\n[{"point": [1, 2], "label": "a"}]\n```',
+    expected: [{ point: [1, 2], label: "a" }],
+  },
+  {
+    name: "brackets and escaped quotes inside labels",
+    text: '```json\n[{"box_2d": [1, 2, 3, 4], "label": "mug [left] \\"chipped\\""}]\n```',
+    expected: [{ box_2d: [1, 2, 3, 4], label: 'mug [left] "chipped"' }],
+  },
+  {
+    name: "list cut off mid-entry by the token limit",
+    text:
+      '```json\n[\n  {"box_2d": [10, 10, 50, 50], "label": "sock"},\n  {"box_2d": [60, 60, 90, 90], "label": "striped sock"},\n  {"box_2d": [100, 1',
+    expected: [
+      { box_2d: [10, 10, 50, 50], label: "sock" },
+      { box_2d: [60, 60, 90, 90], label: "striped sock" },
+    ],
+    truncated: true,
+  },
+  {
+    name: "list cut off inside a label string",
+    text: '[{"point": [10, 20], "label": "fork"}, {"point": [30, 40], "label": "kni',
+    expected: [{ point: [10, 20], label: "fork" }],
+    truncated: true,
+  },
+  {
+    name: "list cut off before the first entry finished",
+    text: '```json\n[\n  {"box_3d": [0.1, 1.2',
+    expected: [],
+    truncated: true,
+  },
+  {
+    name: "unclosed fence",
+    text: '```json\n[{"point": [5, 5], "label": "dot"}]',
+    expected: [{ point: [5, 5], label: "dot" }],
+  },
+  {
+    name: "prose with a bracketed aside before the JSON",
+    text: "I found these items (see the [updated] list):\n```json\n[{\"point\": [7, 8], \"label\": \"pen\"}]\n```",
+    expected: [{ point: [7, 8], label: "pen" }],
+  },
+];
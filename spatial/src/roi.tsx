@@ -0,0 +1,92 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Rect } from "./geometry";
+import { TilingConfig, tileGrid } from "./tiling";
+import { Size } from "./viewport";
+
+// A named part of the frame to detect in, normalized to the image. Inactive
+// regions are kept but not sent.
+export type Roi = Rect & {
+  id: string;
+  name: string;
+  active: boolean;
+};
+
+// A crop of the frame sent as its own request, in source pixels.
+export type CropRegion = {
+  region: Rect;
+  name: string;
+};
+
+// Smallest region, as a fraction of the image, that a drag will create.
+export const minRoiSize = 0.01;
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+// The normalized rectangle spanned by two corners, kept inside the image.
+export function rectFromCorners(
+  [x1, y1]: [number, number],
+  [x2, y2]: [number, number],
+): Rect {
+  const left = clamp(Math.min(x1, x2));
+  const top = clamp(Math.min(y1, y2));
+  return {
+    x: left,
+    y: top,
+    width: clamp(Math.max(x1, x2)) - left,
+    height: clamp(Math.max(y1, y2)) - top,
+  };
+}
+
+export function nextRoiName(rois: Roi[]) {
+  const names = new Set(rois.map(({ name }) => name));
+  let n = rois.length + 1;
+  while (names.has(`Region ${n}`)) n++;
+  return `Region ${n}`;
+}
+
+// Snaps a normalized rectangle to whole source pixels, at least one wide.
+export function toPixels({ x, y, width, height }: Rect, size: Size): Rect {
+  const left = Math.min(size.width - 1, Math.round(x * size.width));
+  const top = Math.min(size.height - 1, Math.round(y * size.height));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(1, Math.min(size.width, Math.round((x + width) * size.width)) - left),
+    height: Math.max(1, Math.min(size.height, Math.round((y + height) * size.height)) - top),
+  };
+}
+
+// The crops one detection sends: each active region, or the whole image when
+// there are none, split into tiles when tiling is given.
+export function cropRegions(
+  size: Size,
+  rois: Roi[],
+  tiling: TilingConfig | null,
+): CropRegion[] {
+  const areas = rois.some(({ active }) => active)
+    ? rois
+        .filter(({ active }) => active)
+        .map((roi) => ({ region: toPixels(roi, size), name: roi.name }))
+    : [{ region: { x: 0, y: 0, ...size }, name: "" }];
+  return areas.flatMap(({ region, name }) => {
+    if (!tiling) return [{ region, name: name || "Whole image" }];
+    const tiles = tileGrid(region, tiling);
+    return tiles.map((tile, i) => ({
+      region: { ...tile, x: region.x + tile.x, y: region.y + tile.y },
+      name: `${name ? `${name}, tile` : "Tile"} ${i + 1} of ${tiles.length}`,
+    }));
+  });
+}
@@ -0,0 +1,149 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { PointingType } from "./atoms";
+import {
+  BackendName,
+  BoundingBox2DType,
+  BoundingBox3DType,
+  DetectTypes,
+  SegmentationMaskType,
+} from "./Types";
+
+export type RunResults = {
+  boxes2D: BoundingBox2DType[];
+  boxes3D: BoundingBox3DType[];
+  points: PointingType[];
+  masks: SegmentationMaskType[];
+};
+
+export const emptyResults: RunResults = {
+  boxes2D: [],
+  boxes3D: [],
+  points: [],
+  masks: [],
+};
+
+// Runs saved before detections had IDs get new ones when they are shown.
+export function withInstanceIds({
+  boxes2D,
+  boxes3D,
+  points,
+  masks,
+}: RunResults): RunResults {
+  const withId = <T extends { id?: string }>(item: T) => ({
+    ...item,
+    id: item.id ?? crypto.randomUUID(),
+  });
+  return {
+    boxes2D: boxes2D.map(withId),
+    boxes3D: boxes3D.map(withId),
+    points: points.map(withId),
+    masks: masks.map(withId),
+  };
+}
+
+export type RunRecord = {
+  id: string;
+  createdAt: number;
+  imageName: string;
+  // Downscaled frame without the strokes, which are kept separately.
+  image: string;
+  lines: [[number, number][], string][];
+  detectType: DetectTypes;
+  // The full text sent to the model, plus the inputs it was built from so the
+  // prompt editor can be restored as well.
+  prompt: string;
+  promptParts: string[];
+  backend: BackendName;
+  model: string;
+  temperature: number;
+  rawResponse: string;
+  results: RunResults;
+  latencyMs: number;
+};
+
+const databaseName = "spatial-understanding";
+const storeName = "runs";
+const maxRuns = 200;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(storeName, {
+          keyPath: "id",
+        });
+        store.createIndex("createdAt", "createdAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runStore(mode: IDBTransactionMode) {
+  const database = await openDatabase();
+  return database.transaction(storeName, mode).objectStore(storeName);
+}
+
+// Newest first.
+export async function listRuns(): Promise<RunRecord[]> {
+  const store = await runStore("readonly");
+  const runs = await toPromise(store.index("createdAt").getAll());
+  return (runs as RunRecord[]).reverse();
+}
+
+export async function saveRun(run: Omit<RunRecord, "id" | "createdAt">) {
+  const record: RunRecord = {
+    ...run,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+  };
+  const store = await runStore("readwrite");
+  await toPromise(store.add(record));
+
+  // Drop the oldest runs so the database doesn't grow without bound.
+  const keys = await toPromise(store.index("createdAt").getAllKeys());
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - maxRuns))
+      .map((key) => toPromise(store.delete(key))),
+  );
+  return record;
+}
+
+export async function deleteRun(id: string) {
+  const store = await runStore("readwrite");
+  await toPromise(store.delete(id));
+}
+
+export async function clearRuns() {
+  const store = await runStore("readwrite");
+  await toPromise(store.clear());
+}
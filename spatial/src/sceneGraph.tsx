@@ -0,0 +1,132 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { relationTypes } from "./consts";
+import { Rect } from "./geometry";
+import { parseModelResponse } from "./parseResponse";
+import { RunResults } from "./runHistory";
+import { RejectedEntry, validateSceneRelations } from "./schemas";
+import { DetectTypes, SceneRelation } from "./Types";
+
+// A detection in a scene graph. Points are boxes with no size.
+export type SceneNode = {
+  // The detection's instance ID.
+  id: string;
+  label: string;
+  box: Rect;
+};
+
+export type SceneGraph = {
+  nodes: SceneNode[];
+  relations: SceneRelation[];
+};
+
+const relationMeanings: Record<SceneRelation["relation"], string> = {
+  on: "the subject rests on top of the object",
+  inside: "the subject is contained in the object",
+  "next to": "the subject is beside the object",
+  "used with": "the subject is used together with the object",
+};
+
+// 3D boxes have no place on the image, so they don't make nodes.
+export function sceneNodes(
+  detectType: DetectTypes,
+  { boxes2D, points, masks }: Pick<RunResults, "boxes2D" | "points" | "masks">,
+): SceneNode[] {
+  const toNode = ({
+    id,
+    label,
+    x,
+    y,
+    width,
+    height,
+  }: Rect & { id: string; label: string }) => ({
+    id,
+    label,
+    box: { x, y, width, height },
+  });
+  if (detectType === "2D bounding boxes") return boxes2D.map(toNode);
+  if (detectType === "Segmentation masks") return masks.map(toNode);
+  if (detectType === "Points") {
+    return points.map(({ id, label, point }) => ({
+      id,
+      label,
+      box: { ...point, width: 0, height: 0 },
+    }));
+  }
+  return [];
+}
+
+export const sameNodes = (a: SceneNode[], b: SceneNode[]) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const toThousandths = (value: number) => Math.round(value * 1000);
+
+export function getSceneGraphPrompt(
+  nodes: SceneNode[],
+  context: { scene: string; task: string } | null,
+) {
+  const objects = nodes
+    .map(({ label, box }, i) => {
+      const ymin = toThousandths(box.y);
+      const xmin = toThousandths(box.x);
+      return `${i}: ${label} [${ymin}, ${xmin}, ${toThousandths(box.y + box.height)}, ${toThousandths(box.x + box.width)}]`;
+    })
+    .join("\n");
+  const relations = relationTypes
+    .map((relation) => `"${relation}" (${relationMeanings[relation]})`)
+    .join(", ");
+  return `These objects were detected in the image, numbered, with boxes as [ymin, xmin, ymax, xmax] normalized to 0-1000:
+${objects}
+${context ? `\nThe scene: ${context.scene}\nThe likely task: ${context.task}\n` : ""}
+List every related pair of these objects, using only these relations: ${relations}. Output a JSON list where each entry has the "subject" and "object" indices, the "relation" and a short "description" of at most 5 words. Leave out pairs that aren't related.`;
+}
+
+// Keeps one of each relation; "next to" goes both ways, so b next to a
+// repeats a next to b.
+function dedupe(relations: SceneRelation[]) {
+  const seen = new Set<string>();
+  return relations.filter(({ subject, relation, object }) => {
+    const [a, b] =
+      relation === "next to"
+        ? [Math.min(subject, object), Math.max(subject, object)]
+        : [subject, object];
+    const key = `${a} ${relation} ${b}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function parseSceneGraph(
+  text: string,
+  nodes: SceneNode[],
+): { graph: SceneGraph; rejected: RejectedEntry[] } {
+  const { valid, rejected } = validateSceneRelations(
+    parseModelResponse(text).value,
+    nodes.length,
+  );
+  return { graph: { nodes, relations: dedupe(valid) }, rejected };
+}
+
+export function exportSceneGraph({ nodes, relations }: SceneGraph) {
+  return JSON.stringify(
+    {
+      nodes: nodes.map(({ label, box }, id) => ({ id, label, box })),
+      relations,
+    },
+    null,
+    2,
+  );
+}
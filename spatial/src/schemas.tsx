@@ -0,0 +1,279 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { ResponseSchema, Schema, SchemaType } from "@google/generative-ai";
+import { PointingType } from "./atoms";
+import { relationTypes } from "./consts";
+import {
+  BoundingBox2DType,
+  BoundingBox3DType,
+  DetectTypes,
+  RelationType,
+  SceneRelation,
+} from "./Types";
+
+const numberList = (description: string): Schema => ({
+  type: SchemaType.ARRAY,
+  description,
+  items: { type: SchemaType.NUMBER },
+});
+
+const labeledList = (key: string, coordinates: Schema): ResponseSchema => ({
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      [key]: coordinates,
+      label: { type: SchemaType.STRING },
+    },
+    required: [key, "label"],
+  },
+});
+
+// Sent with every detection request so the model answers with bare JSON in
+// the shape the validators below expect.
+export const responseSchemas: Record<DetectTypes, ResponseSchema> = {
+  "2D bounding boxes": labeledList(
+    "box_2d",
+    numberList("[ymin, xmin, ymax, xmax] normalized to 0-1000"),
+  ),
+  Points: labeledList("point", numberList("[y, x] normalized to 0-1000")),
+  "3D bounding boxes": labeledList(
+    "box_3d",
+    numberList(
+      "[x, y, z, x_size, y_size, z_size, roll, pitch, yaw], angles in degrees",
+    ),
+  ),
+  "Segmentation masks": {
+    type: SchemaType.ARRAY,
+    items: {
+      type: SchemaType.OBJECT,
+      properties: {
+        box_2d: numberList("[ymin, xmin, ymax, xmax] normalized to 0-1000"),
+        mask: {
+          type: SchemaType.STRING,
+          description: "base64 encoded PNG covering the box",
+        },
+        label: { type: SchemaType.STRING },
+      },
+      required: ["box_2d", "mask", "label"],
+    },
+  },
+};
+
+// Relations between numbered objects, for scene graphs.
+export const sceneGraphSchema: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      subject: { type: SchemaType.INTEGER, description: "index of an object" },
+      relation: { type: SchemaType.STRING, format: "enum", enum: relationTypes },
+      object: { type: SchemaType.INTEGER, description: "index of another object" },
+      description: { type: SchemaType.STRING },
+    },
+    required: ["subject", "relation", "object"],
+  },
+};
+
+export type RejectedEntry = {
+  index: number;
+  entry: unknown;
+  reason: string;
+};
+
+export type ValidationResult<T> = {
+  valid: T[];
+  rejected: RejectedEntry[];
+};
+
+type Entry = Record<string, unknown>;
+
+// Each check either converts an entry or returns the reason it was rejected.
+function validateEach<T>(
+  data: unknown,
+  check: (entry: Entry, index: number) => T | string,
+): ValidationResult<T> {
+  if (!Array.isArray(data)) {
+    throw new Error(`Expected a JSON list, got ${describe(data)}`);
+  }
+  const valid: T[] = [];
+  const rejected: RejectedEntry[] = [];
+  data.forEach((entry, index) => {
+    const result =
+      entry && typeof entry === "object" && !Array.isArray(entry)
+        ? check(entry as Entry, index)
+        : `expected an object, got ${describe(entry)}`;
+    if (typeof result === "string") {
+      rejected.push({ index, entry, reason: result });
+    } else {
+      valid.push(result);
+    }
+  });
+  return { valid, rejected };
+}
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+function checkLabel(entry: Entry) {
+  if (typeof entry.label !== "string" || !entry.label.trim()) {
+    return '"label" must be a non-empty string';
+  }
+}
+
+function checkNumbers(entry: Entry, key: string, length: number) {
+  const value = entry[key];
+  if (
+    !Array.isArray(value) ||
+    value.length !== length ||
+    !value.every((v) => typeof v === "number" && Number.isFinite(v))
+  ) {
+    return `"${key}" must be a list of ${length} numbers`;
+  }
+}
+
+function checkNormalized(values: number[], key: string) {
+  if (values.some((v) => v < 0 || v > 1000)) {
+    return `"${key}" coordinates must be within 0-1000`;
+  }
+}
+
+function checkBox2D(entry: Entry): BoundingBox2DType | string {
+  const error = checkNumbers(entry, "box_2d", 4) || checkLabel(entry);
+  if (error) return error;
+  const box = entry.box_2d as [number, number, number, number];
+  const rangeError = checkNormalized(box, "box_2d");
+  if (rangeError) return rangeError;
+  const [ymin, xmin, ymax, xmax] = box;
+  if (ymin > ymax || xmin > xmax) {
+    return '"box_2d" must be ordered [ymin, xmin, ymax, xmax]';
+  }
+  return {
+    id: crypto.randomUUID(),
+    x: xmin / 1000,
+    y: ymin / 1000,
+    width: (xmax - xmin) / 1000,
+    height: (ymax - ymin) / 1000,
+    label: entry.label as string,
+  };
+}
+
+export function validateBoundingBoxes2D(
+  data: unknown,
+): ValidationResult<BoundingBox2DType> {
+  return validateEach(data, checkBox2D);
+}
+
+export function validatePoints(data: unknown): ValidationResult<PointingType> {
+  return validateEach(data, (entry) => {
+    const error = checkNumbers(entry, "point", 2) || checkLabel(entry);
+    if (error) return error;
+    const point = entry.point as [number, number];
+    const rangeError = checkNormalized(point, "point");
+    if (rangeError) return rangeError;
+    return {
+      id: crypto.randomUUID(),
+      point: {
+        x: point[1] / 1000,
+        y: point[0] / 1000,
+      },
+      label: entry.label as string,
+    };
+  });
+}
+
+export function validateBoundingBoxes3D(
+  data: unknown,
+): ValidationResult<BoundingBox3DType> {
+  return validateEach(data, (entry) => {
+    const error = checkNumbers(entry, "box_3d", 9) || checkLabel(entry);
+    if (error) return error;
+    const box = entry.box_3d as number[];
+    if (box.slice(3, 6).some((s) => s <= 0)) {
+      return '"box_3d" sizes must be positive';
+    }
+    return {
+      id: crypto.randomUUID(),
+      center: box.slice(0, 3) as [number, number, number],
+      size: box.slice(3, 6) as [number, number, number],
+      rpy: box.slice(6).map((x) => (x * Math.PI) / 180) as [
+        number,
+        number,
+        number,
+      ],
+      label: entry.label as string,
+    };
+  });
+}
+
+// A validated mask that still has to be decoded, see masks.tsx.
+export type SegmentationMaskEntry = BoundingBox2DType & {
+  mask: string;
+  index: number;
+};
+
+export function validateSegmentationMasks(
+  data: unknown,
+): ValidationResult<SegmentationMaskEntry> {
+  return validateEach(data, (entry, index) => {
+    const box = checkBox2D(entry);
+    if (typeof box === "string") return box;
+    if (typeof entry.mask !== "string" || !entry.mask) {
+      return '"mask" must be a base64 encoded PNG';
+    }
+    const mask = entry.mask.startsWith("data:")
+      ? entry.mask
+      : `data:image/png;base64,${entry.mask}`;
+    return { ...box, mask, index };
+  });
+}
+
+// Relations must name two different objects out of `objectCount`, by index.
+export function validateSceneRelations(
+  data: unknown,
+  objectCount: number,
+): ValidationResult<SceneRelation> {
+  const checkIndex = (entry: Entry, key: string) => {
+    const value = entry[key];
+    if (!Number.isInteger(value) || (value as number) < 0 || (value as number) >= objectCount) {
+      return `"${key}" must be an object index from 0 to ${objectCount - 1}`;
+    }
+  };
+  return validateEach(data, (entry) => {
+    const error = checkIndex(entry, "subject") || checkIndex(entry, "object");
+    if (error) return error;
+    const { subject, object } = entry;
+    if (subject === object) {
+      return '"subject" and "object" must be different objects';
+    }
+    const relation =
+      typeof entry.relation === "string"
+        ? entry.relation.trim().toLowerCase().replace(/_/g, " ")
+        : "";
+    if (!relationTypes.includes(relation as RelationType)) {
+      return `"relation" must be one of ${relationTypes.join(", ")}`;
+    }
+    return {
+      subject: subject as number,
+      relation: relation as RelationType,
+      object: object as number,
+      description:
+        typeof entry.description === "string" ? entry.description.trim() : "",
+    };
+  });
+}
@@ -0,0 +1,298 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { colors } from "./consts";
+import { Rect } from "./geometry";
+import { Size } from "./viewport";
+
+export type Stroke = [[number, number][], string];
+
+export type StrokeKind = "circle" | "arrow" | "underline" | "scribble";
+
+// What a freehand stroke on the image most likely means. Coordinates are
+// normalized to the image.
+export type StrokeAnnotation = {
+  kind: StrokeKind;
+  // The stroke's color as drawn, and its name for prompts.
+  color: string;
+  colorName: string;
+  bounds: Rect;
+  // Where on the image the stroke is, e.g. "top left".
+  position: string;
+  // For arrows, the point they point at.
+  tip?: [number, number];
+};
+
+const colorNames: Record<string, string> = Object.fromEntries(
+  ["black", "white", "red", "orange", "yellow", "green", "blue", "purple"].map(
+    (name, i) => [colors[i], name],
+  ),
+);
+
+// A closed stroke ends within this fraction of its size from where it began.
+const closedGap = 0.3;
+// Straight strokes cover at least this fraction of their length end to end.
+const straightness = 0.85;
+// Underlines rise at most this much per unit across.
+const maxUnderlineSlope = 0.35;
+// An arrow head drawn after the shaft is at most this long, relative to it.
+const maxHeadLength = 0.6;
+// Arrows, underlines and scribbles only pick detections this close to them.
+const maxTargetDistance = 0.15;
+
+type Point = [number, number];
+
+const distance = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+const pathLength = (points: Point[]) =>
+  points.reduce((sum, point, i) => (i ? sum + distance(points[i - 1], point) : 0), 0);
+
+function boundsOf(points: Point[]): Rect {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function describePosition(x: number, y: number) {
+  const row = y < 1 / 3 ? "top" : y < 2 / 3 ? "" : "bottom";
+  const column = x < 1 / 3 ? "left" : x < 2 / 3 ? "" : "right";
+  return [row, column].filter(Boolean).join(" ") || "center";
+}
+
+// Sorts a stroke into one of the kinds from its shape, measured in image
+// pixels so that circles on wide images still look round.
+export function classifyStroke(
+  [normalized, color]: Stroke,
+  size: Size,
+): StrokeAnnotation {
+  const toNormalized = ([x, y]: Point): Point => [x / size.width, y / size.height];
+  const points = normalized.map(([x, y]): Point => [x * size.width, y * size.height]);
+  const bounds = boundsOf(normalized);
+  const annotation = {
+    color,
+    colorName: colorNames[color] ?? "colored",
+    bounds,
+    position: describePosition(
+      bounds.x + bounds.width / 2,
+      bounds.y + bounds.height / 2,
+    ),
+  };
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  const length = pathLength(points);
+  const { width, height } = boundsOf(points);
+  const extent = Math.max(width, height);
+  if (points.length < 3 || extent === 0) {
+    return { ...annotation, kind: "scribble" };
+  }
+
+  if (
+    distance(start, end) < closedGap * extent &&
+    Math.min(width, height) > 0.3 * extent &&
+    length < 2 * Math.PI * extent
+  ) {
+    return { ...annotation, kind: "circle" };
+  }
+
+  // The shaft runs to the first point about as far from the start as any;
+  // whatever follows it is the head, which may come back to the tip.
+  const reach = points.map((point) => distance(start, point));
+  const farthest = Math.max(...reach);
+  const tipIndex = reach.findIndex((d) => d >= 0.97 * farthest);
+  const shaft = points.slice(0, tipIndex + 1);
+  const shaftLength = pathLength(shaft);
+  const tip = points[tipIndex];
+  const shaftStraight = distance(start, tip) >= straightness * shaftLength;
+  const headLength = length - shaftLength;
+  if (
+    shaftStraight &&
+    headLength > 0.05 * shaftLength &&
+    headLength < maxHeadLength * shaftLength
+  ) {
+    return { ...annotation, kind: "arrow", tip: toNormalized(tip) };
+  }
+
+  if (distance(start, end) >= straightness * length) {
+    const horizontal =
+      Math.abs(end[1] - start[1]) <= maxUnderlineSlope * Math.abs(end[0] - start[0]);
+    // A straight line that isn't level points the way it was drawn.
+    return horizontal
+      ? { ...annotation, kind: "underline" }
+      : { ...annotation, kind: "arrow", tip: toNormalized(end) };
+  }
+
+  return { ...annotation, kind: "scribble" };
+}
+
+export const classifyStrokes = (strokes: Stroke[], size: Size) =>
+  strokes
+    .filter(([points]) => points.length > 0)
+    .map((stroke) => classifyStroke(stroke, size));
+
+// Moves strokes classified on the whole image into a crop of it, keeping those
+// that reach into the crop, with positions and arrow tips relative to it. size
+// and region are in image pixels.
+export function cropStrokes(
+  annotations: StrokeAnnotation[],
+  size: Size,
+  region: Rect,
+): StrokeAnnotation[] {
+  const crop = {
+    x: region.x / size.width,
+    y: region.y / size.height,
+    width: region.width / size.width,
+    height: region.height / size.height,
+  };
+  const toCrop = ([x, y]: Point): Point => [
+    (x - crop.x) / crop.width,
+    (y - crop.y) / crop.height,
+  ];
+  return annotations
+    .filter(
+      ({ bounds }) =>
+        bounds.x <= crop.x + crop.width &&
+        bounds.x + bounds.width >= crop.x &&
+        bounds.y <= crop.y + crop.height &&
+        bounds.y + bounds.height >= crop.y,
+    )
+    .map((annotation) => {
+      const [x, y] = toCrop([annotation.bounds.x, annotation.bounds.y]);
+      const bounds = {
+        x,
+        y,
+        width: annotation.bounds.width / crop.width,
+        height: annotation.bounds.height / crop.height,
+      };
+      return {
+        ...annotation,
+        bounds,
+        position: describePosition(
+          bounds.x + bounds.width / 2,
+          bounds.y + bounds.height / 2,
+        ),
+        ...(annotation.tip && { tip: toCrop(annotation.tip) }),
+      };
+    });
+}
+
+// Names a stroke so the model can tell it apart from the others.
+function describe(
+  { kind, colorName, position }: StrokeAnnotation,
+  sameKind: number,
+) {
+  return sameKind > 1
+    ? `the ${colorName} ${kind} at the ${position}`
+    : `the ${colorName} ${kind}`;
+}
+
+// Instructions that spell out what the strokes drawn on the image mean, to add
+// to a detection prompt. Empty without strokes.
+export function strokeInstructions(annotations: StrokeAnnotation[]) {
+  if (annotations.length === 0) return "";
+  const count = (kind: StrokeKind) =>
+    annotations.filter((a) => a.kind === kind).length;
+  const named = (kind: StrokeKind) =>
+    annotations
+      .filter((a) => a.kind === kind)
+      .map((a) => describe(a, count(kind)));
+  const either = (names: string[]) =>
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`
+      : names[0];
+
+  const sentences = [
+    "The strokes drawn over the image are annotations, not part of the scene; don't detect them.",
+  ];
+  if (count("circle")) {
+    sentences.push(`Only consider objects inside ${either(named("circle"))}.`);
+  }
+  for (const name of named("arrow")) {
+    sentences.push(`Include the object ${name} points to.`);
+  }
+  for (const name of named("underline")) {
+    sentences.push(`Include the object just above ${name}.`);
+  }
+  for (const name of named("scribble")) {
+    sentences.push(`Pay particular attention to the area marked by ${name}.`);
+  }
+  return sentences.join(" ");
+}
+
+// Distance from a point to a rect, 0 inside it.
+function distanceToRect([px, py]: Point, { x, y, width, height }: Rect) {
+  const dx = Math.max(x - px, 0, px - (x + width));
+  const dy = Math.max(y - py, 0, py - (y + height));
+  return Math.hypot(dx, dy);
+}
+
+const centerOf = ({ x, y, width, height }: Rect): Point => [x + width / 2, y + height / 2];
+
+// Index of the nearest item within reach, preferring smaller items on ties.
+function nearest(items: Rect[], measure: (item: Rect) => number | null) {
+  let best: number | null = null;
+  let bestDistance = maxTargetDistance;
+  for (const [index, item] of items.entries()) {
+    const d = measure(item);
+    if (d === null || d > bestDistance) continue;
+    const area = item.width * item.height;
+    if (
+      best === null ||
+      d < bestDistance ||
+      area < items[best].width * items[best].height
+    ) {
+      best = index;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+// The detections each stroke singles out, as the stroke color per item index:
+// items centered inside a circle or scribble, the item an arrow points to and
+// the item sitting on an underline. Points are rects with no size.
+export function strokeTargets(annotations: StrokeAnnotation[], items: Rect[]) {
+  const targets = new Map<number, string>();
+  for (const annotation of annotations) {
+    const { kind, bounds, color } = annotation;
+    if (kind === "circle" || kind === "scribble") {
+      const [cx, cy] = centerOf(bounds);
+      const rx = bounds.width / 2 || 1e-6;
+      const ry = bounds.height / 2 || 1e-6;
+      items.forEach((item, i) => {
+        const [x, y] = centerOf(item);
+        const inside =
+          kind === "circle"
+            ? ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1
+            : distanceToRect([x, y], bounds) === 0;
+        if (inside) targets.set(i, color);
+      });
+    } else if (kind === "arrow") {
+      const index = nearest(items, (item) => distanceToRect(annotation.tip!, item));
+      if (index !== null) targets.set(index, color);
+    } else {
+      const line = bounds.y + bounds.height / 2;
+      const index = nearest(items, (item) => {
+        const overlaps =
+          item.x < bounds.x + bounds.width && item.x + item.width > bounds.x;
+        const gap = line - (item.y + item.height);
+        return overlaps && gap > -maxTargetDistance / 3 ? Math.abs(gap) : null;
+      });
+      if (index !== null) targets.set(index, color);
+    }
+  }
+  return targets;
+}
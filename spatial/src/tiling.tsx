@@ -0,0 +1,212 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { DetectionBackend } from "./backends";
+import { DetectionConfig, DetectionOutput, runDetection } from "./detection";
+import { Rect, containment, iou, sameLabel } from "./geometry";
+import { RunResults, emptyResults } from "./runHistory";
+import { DetectTypes } from "./Types";
+import { Size } from "./viewport";
+
+export type TilingConfig = {
+  enabled: boolean;
+  // Side of a tile in source pixels.
+  tileSize: number;
+  // Fraction of a tile shared with its neighbours.
+  overlap: number;
+};
+
+export type Tile = {
+  // In source pixels.
+  region: Rect;
+  // Heads the tile's part of the raw response.
+  name: string;
+  image: string;
+  // Replaces the configured prompt for this tile, e.g. to describe only the
+  // strokes inside it.
+  prompt?: string;
+};
+
+// 3D boxes depend on the whole camera view, so they can't be stitched.
+export const canTile = (detectType: DetectTypes) =>
+  detectType !== "3D bounding boxes";
+
+const iouThreshold = 0.5;
+const containmentThreshold = 0.8;
+// How close to a tile border, as a fraction of the tile, counts as touching it.
+const edgeMargin = 0.01;
+// Same-label points closer than this fraction of a tile are merged.
+const pointMergeDistance = 0.03;
+const tileConcurrency = 3;
+
+// Evenly spaced start positions covering `length` with tiles of `size`, no
+// further apart than the overlap allows.
+function tileStarts(length: number, size: number, overlap: number) {
+  const stride = Math.max(1, size * (1 - overlap));
+  const count = Math.max(1, Math.ceil((length - size) / stride) + 1);
+  return Array.from({ length: count }, (_, i) =>
+    count === 1 ? 0 : Math.round((i * (length - size)) / (count - 1)),
+  );
+}
+
+export function tileGrid(
+  { width, height }: Size,
+  { tileSize, overlap }: TilingConfig,
+): Rect[] {
+  const tileWidth = Math.min(tileSize, width);
+  const tileHeight = Math.min(tileSize, height);
+  return tileStarts(height, tileHeight, overlap).flatMap((y) =>
+    tileStarts(width, tileWidth, overlap).map((x) => ({
+      x,
+      y,
+      width: tileWidth,
+      height: tileHeight,
+    })),
+  );
+}
+
+type Candidate<T> = {
+  item: T;
+  // Cut off by a border shared with another tile, so likely incomplete.
+  cut: boolean;
+};
+
+// Keeps the most complete box of each group of overlapping same-label boxes:
+// boxes away from tile seams win, then larger ones.
+function suppress<T extends Rect & { label: string }>(candidates: Candidate<T>[]) {
+  const ranked = [...candidates].sort(
+    (a, b) =>
+      Number(a.cut) - Number(b.cut) ||
+      b.item.width * b.item.height - a.item.width * a.item.height,
+  );
+  const kept: T[] = [];
+  for (const { item } of ranked) {
+    const duplicate = kept.some(
+      (other) =>
+        sameLabel(item, other) &&
+        (iou(item, other) >= iouThreshold ||
+          containment(item, other) >= containmentThreshold),
+    );
+    if (!duplicate) kept.push(item);
+  }
+  return kept;
+}
+
+// Maps per-tile results, normalized to their tiles, onto the full image and
+// merges the duplicates found where tiles overlap.
+export function mergeTileResults(
+  tiles: { region: Rect; results: RunResults }[],
+  image: Size,
+): RunResults {
+  const boxes: Candidate<RunResults["boxes2D"][number]>[] = [];
+  const masks: Candidate<RunResults["masks"][number]>[] = [];
+  const points: RunResults["points"] = [];
+  let mergeDistance = 0;
+
+  for (const { region, results } of tiles) {
+    const imageX = (x: number) => (region.x + x * region.width) / image.width;
+    const imageY = (y: number) => (region.y + y * region.height) / image.height;
+    const toImage = <T extends Rect>(item: T): Candidate<T> => {
+      const touches = {
+        left: item.x <= edgeMargin && region.x > 0,
+        top: item.y <= edgeMargin && region.y > 0,
+        right: item.x + item.width >= 1 - edgeMargin && region.x + region.width < image.width,
+        bottom: item.y + item.height >= 1 - edgeMargin && region.y + region.height < image.height,
+      };
+      return {
+        item: {
+          ...item,
+          x: imageX(item.x),
+          y: imageY(item.y),
+          width: (item.width * region.width) / image.width,
+          height: (item.height * region.height) / image.height,
+        },
+        cut: Object.values(touches).some(Boolean),
+      };
+    };
+    boxes.push(...results.boxes2D.map(toImage));
+    masks.push(
+      ...results.masks.map((mask) => {
+        const candidate = toImage(mask);
+        candidate.item.polygons = mask.polygons.map((polygon) =>
+          polygon.map(([x, y]): [number, number] => [imageX(x), imageY(y)]),
+        );
+        return candidate;
+      }),
+    );
+    mergeDistance = Math.max(
+      mergeDistance,
+      pointMergeDistance * Math.min(region.width, region.height),
+    );
+
+    for (const point of results.points) {
+      const mapped = {
+        ...point,
+        point: { x: imageX(point.point.x), y: imageY(point.point.y) },
+      };
+      const duplicate = points.some(
+        (other) =>
+          sameLabel(mapped, other) &&
+          Math.hypot(
+            (mapped.point.x - other.point.x) * image.width,
+            (mapped.point.y - other.point.y) * image.height,
+          ) < mergeDistance,
+      );
+      if (!duplicate) points.push(mapped);
+    }
+  }
+
+  return {
+    ...emptyResults,
+    boxes2D: suppress(boxes),
+    masks: suppress(masks),
+    points,
+  };
+}
+
+// Runs detection on every tile or region crop, a few at a time, and stitches
+// the results. Tiles that fail fail the whole run, since a gap would look like
+// a miss.
+export async function runTiledDetection(
+  backend: DetectionBackend,
+  config: DetectionConfig,
+  tiles: Tile[],
+  image: Size,
+): Promise<DetectionOutput> {
+  const startedAt = performance.now();
+  const outputs: DetectionOutput[] = new Array(tiles.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tiles.length) {
+      const i = next++;
+      const prompt = tiles[i].prompt ?? config.prompt;
+      outputs[i] = await runDetection(backend, { ...config, prompt }, tiles[i].image);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(tileConcurrency, tiles.length) }, worker),
+  );
+
+  return {
+    rawText: outputs
+      .map(({ rawText }, i) => `// ${tiles[i].name}\n${rawText}`)
+      .join("\n\n"),
+    results: mergeTileResults(
+      outputs.map(({ results }, i) => ({ region: tiles[i].region, results })),
+      image,
+    ),
+    rejected: outputs.flatMap(({ rejected }) => rejected),
+    latencyMs: Math.round(performance.now() - startedAt),
+  };
+}
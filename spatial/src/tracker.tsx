@@ -0,0 +1,99 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { matchBoxes, sameLabel } from "./geometry";
+import { BoundingBox2DType } from "./Types";
+
+export type Track = {
+  id: number;
+  box: BoundingBox2DType;
+  // Frames in a row without a matching detection.
+  missed: number;
+  // Recent box centers, oldest first.
+  trail: [number, number][];
+};
+
+export type TrackerState = {
+  tracks: Track[];
+  nextId: number;
+};
+
+export const emptyTracker: TrackerState = { tracks: [], nextId: 1 };
+
+const iouThreshold = 0.3;
+// How far a track moves towards each new detection; 1 means no smoothing.
+const smoothing = 0.6;
+// How many frames a track survives without a detection, e.g. while occluded.
+const maxMissed = 3;
+const trailLength = 30;
+
+const center = (box: BoundingBox2DType): [number, number] => [
+  box.x + box.width / 2,
+  box.y + box.height / 2,
+];
+
+const lerp = (from: number, to: number) => from + (to - from) * smoothing;
+
+// Matches detections to existing tracks by IoU among boxes with the same
+// label. Matched tracks ease towards the detection, unmatched detections start
+// new tracks and unmatched tracks coast until they have been missed too often.
+export function updateTracks(
+  state: TrackerState,
+  detections: BoundingBox2DType[],
+): TrackerState {
+  const { matches, unmatchedA, unmatchedB } = matchBoxes(
+    state.tracks.map(({ box }) => box),
+    detections,
+    iouThreshold,
+    sameLabel,
+  );
+
+  const tracks: Track[] = [];
+  for (const { a, b } of matches) {
+    const track = state.tracks[a];
+    const detection = detections[b];
+    // The box keeps the ID it was first detected with, so selections follow
+    // it from frame to frame.
+    const box = {
+      id: track.box.id,
+      x: lerp(track.box.x, detection.x),
+      y: lerp(track.box.y, detection.y),
+      width: lerp(track.box.width, detection.width),
+      height: lerp(track.box.height, detection.height),
+      label: detection.label,
+      trackId: track.id,
+    };
+    tracks.push({
+      id: track.id,
+      box,
+      missed: 0,
+      trail: [...track.trail, center(box)].slice(-trailLength),
+    });
+  }
+  for (const a of unmatchedA) {
+    const track = state.tracks[a];
+    if (track.missed < maxMissed) {
+      tracks.push({ ...track, missed: track.missed + 1 });
+    }
+  }
+  let nextId = state.nextId;
+  for (const b of unmatchedB) {
+    const id = nextId++;
+    const box = { ...detections[b], trackId: id };
+    tracks.push({ id, box, missed: 0, trail: [center(box)] });
+  }
+
+  tracks.sort((m, n) => m.id - n.id);
+  return { tracks, nextId };
+}
@@ -12,6 +12,8 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { RequestState } from "./Types";
+
 export function getSvgPathFromStroke(stroke: number[][]) {
   if (!stroke.length) return "";
 
@@ -38,3 +40,37 @@ export function loadImage(src: string) {
     img.onerror = reject;
   });
 }
+
+export function splitDataURL(dataURL: string) {
+  const [header, data] = dataURL.split(",");
+  const mimeType = header.slice("data:".length, header.indexOf(";"));
+  return { mimeType, data };
+}
+
+export function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function isRequestInFlight({ status }: RequestState) {
+  return status === "capturing" || status === "waiting" || status === "parsing";
+}
+
+// Whether a key event comes from somewhere the user is typing, where global
+// shortcuts must not fire.
+export function isTextInput(target: EventTarget | null) {
+  const element = target as HTMLElement | null;
+  return Boolean(
+    element &&
+      (element.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName)),
+  );
+}
+
+export function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
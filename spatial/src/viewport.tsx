@@ -0,0 +1,96 @@
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Zoom and pan of the content area, applied as translate(x, y) scale(zoom)
+// with the origin at its top left corner. x and y are in CSS pixels.
+export type Viewport = {
+  zoom: number;
+  x: number;
+  y: number;
+};
+
+export type Size = { width: number; height: number };
+
+export const fitViewport: Viewport = { zoom: 1, x: 0, y: 0 };
+
+export const minZoom = 1;
+export const maxZoom = 10;
+
+// Keeps the zoomed content covering the whole area.
+export function clampViewport({ zoom, x, y }: Viewport, size: Size): Viewport {
+  const clampedZoom = Math.min(maxZoom, Math.max(minZoom, zoom));
+  return {
+    zoom: clampedZoom,
+    x: Math.min(0, Math.max(size.width * (1 - clampedZoom), x)),
+    y: Math.min(0, Math.max(size.height * (1 - clampedZoom), y)),
+  };
+}
+
+// Scales by factor while keeping the content under point, in area pixels,
+// where it is.
+export function zoomAt(
+  viewport: Viewport,
+  factor: number,
+  [px, py]: [number, number],
+  size: Size,
+): Viewport {
+  const zoom = Math.min(maxZoom, Math.max(minZoom, viewport.zoom * factor));
+  const scale = zoom / viewport.zoom;
+  return clampViewport(
+    {
+      zoom,
+      x: px - (px - viewport.x) * scale,
+      y: py - (py - viewport.y) * scale,
+    },
+    size,
+  );
+}
+
+export function panBy(
+  viewport: Viewport,
+  dx: number,
+  dy: number,
+  size: Size,
+): Viewport {
+  return clampViewport(
+    { ...viewport, x: viewport.x + dx, y: viewport.y + dy },
+    size,
+  );
+}
+
+// Moves the view so the area point [u, v], normalized to the area, is centered.
+export function centerOn(
+  viewport: Viewport,
+  [u, v]: [number, number],
+  size: Size,
+): Viewport {
+  return clampViewport(
+    {
+      ...viewport,
+      x: size.width / 2 - u * size.width * viewport.zoom,
+      y: size.height / 2 - v * size.height * viewport.zoom,
+    },
+    size,
+  );
+}
+
+// The visible part of the area, normalized to the area.
+export function visibleRegion({ zoom, x, y }: Viewport, size: Size) {
+  return {
+    x: -x / (size.width * zoom),
+    y: -y / (size.height * zoom),
+    width: 1 / zoom,
+    height: 1 / zoom,
+  };
+}